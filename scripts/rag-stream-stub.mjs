@@ -0,0 +1,128 @@
+// Minimal local stub for the RAG streaming endpoint.
+// Emits a canned SSE stream on POST */rag/query/stream and a plain JSON
+// answer on POST */rag/query and */rag/conversation so the streaming,
+// fallback and follow-up paths can be exercised without the real backend.
+// POST */rag/multi-step returns the same answer with a step trace.
+//
+// Usage: npm run stub:rag   (then set VITE_API_URL=http://localhost:3001/api)
+import http from "node:http";
+
+const PORT = Number(process.env.PORT) || 3001;
+const TOKEN_DELAY_MS = Number(process.env.TOKEN_DELAY_MS) || 60;
+
+const answer =
+  "The quarterly report highlights three areas: revenue growth of 12% [1], " +
+  "expanded headcount in engineering, and a new data retention policy [2].";
+
+const sources = [
+  {
+    documentId: "stub-doc-1",
+    fileName: "Q3 Report.pdf",
+    fileType: "pdf",
+    snippet: "Revenue grew 12% quarter over quarter...",
+    driveUrl: "https://drive.google.com/file/d/stub-doc-1",
+    relevanceScore: 0.91,
+    chunkIndex: 0,
+  },
+  {
+    documentId: "stub-doc-2",
+    fileName: "Retention Policy.docx",
+    fileType: "docx",
+    snippet: "All customer data is retained for 24 months...",
+    driveUrl: "https://drive.google.com/file/d/stub-doc-2",
+    relevanceScore: 0.84,
+    chunkIndex: 3,
+  },
+];
+
+const steps = [
+  {
+    subQuestion: "How did revenue change this quarter?",
+    sources: [sources[0]],
+    partialAnswer: "Revenue grew 12% quarter over quarter [1].",
+  },
+  {
+    subQuestion: "Which policies changed?",
+    sources: [sources[1]],
+    partialAnswer: "A new data retention policy was introduced [1].",
+  },
+];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Accept",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const sendEvent = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (req.method === "POST" && req.url.endsWith("/rag/query/stream")) {
+    res.writeHead(200, {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    let closed = false;
+    req.on("close", () => {
+      closed = true;
+    });
+
+    for (const token of answer.match(/\S+\s*/g)) {
+      if (closed) return;
+      sendEvent(res, "token", { token });
+      await sleep(TOKEN_DELAY_MS);
+    }
+
+    sendEvent(res, "sources", { sources });
+    sendEvent(res, "done", { conversationId: `stub-${Date.now()}` });
+    res.end();
+    return;
+  }
+
+  if (
+    req.method === "POST" &&
+    (req.url.endsWith("/rag/query") || req.url.endsWith("/rag/conversation"))
+  ) {
+    res.writeHead(200, { ...corsHeaders, "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        success: true,
+        message: "ok",
+        data: { answer, sources },
+      })
+    );
+    return;
+  }
+
+  if (req.method === "POST" && req.url.endsWith("/rag/multi-step")) {
+    res.writeHead(200, { ...corsHeaders, "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        success: true,
+        message: "ok",
+        data: { answer, sources, steps },
+      })
+    );
+    return;
+  }
+
+  res.writeHead(404, { ...corsHeaders, "Content-Type": "application/json" });
+  res.end(JSON.stringify({ success: false, error: "Not found" }));
+});
+
+server.listen(PORT, () => {
+  console.log(`RAG stream stub listening on http://localhost:${PORT}`);
+});
@@ -1,24 +1,86 @@
-import React, { useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import {
+  BrowserRouter,
+  useLocation,
+  useMatch,
+  useNavigate,
+  useSearchParams,
+} from "react-router-dom";
 import SearchBar from "./components/SearchBar";
 import ResultsList from "./components/ResultsList";
-import SnippetPreview from "./components/SnippetPreview";
+import SnippetPreview, {
+  type SnippetPreviewViewMode,
+} from "./components/SnippetPreview";
 import ChatPanel from "./components/ChatPanel";
 import Sidebar from "./components/Sidebar";
-import { ErrorBoundary } from "./components/ErrorBoundary";
-import { useSearch } from "./hooks/useApi";
-import { type SearchResult } from "./types/api";
-import { FileText, MessageSquare } from "lucide-react";
+import ComparisonWorkspace from "./components/ComparisonWorkspace";
+import SearchFilterPanel, { FilterChips } from "./components/SearchFilters";
+import SearchFacets from "./components/SearchFacets";
+import SearchResults from "./components/SearchResults";
+import SavedSearches, { SaveSearchButton } from "./components/SavedSearches";
+import KeyboardShortcutsHelp from "./components/KeyboardShortcutsHelp";
+import CommandPalette from "./components/CommandPalette";
+import SearchStatsDialog from "./components/SearchStatsDialog";
+import IndexingActivity from "./components/IndexingActivity";
+import { EmptyState, ErrorBoundary } from "./components/ErrorBoundary";
+import { useInfiniteSearch } from "./hooks/useApi";
+import { useScrollRestoration } from "./hooks/useScrollRestoration";
+import { useChatSessions } from "./hooks/useChatSessions";
+import { useAddSearchHistory } from "./hooks/useSearchHistory";
+import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
+import { useIndexingJobs } from "./hooks/useIndexingQueue";
+import { isRequestCancelled } from "./services/api";
+import { type SearchMode, type SearchResult } from "./types/api";
+import type { ComparisonDocument } from "./types/comparison";
+import type { ChatScope, ChatSession } from "./types/chat";
+import type {
+  SearchFacetSelection,
+  SearchFilters,
+  SearchResultsView,
+  StoredSearch,
+} from "./types/search";
+import {
+  ROUTE_PATTERNS,
+  getSearchFilters,
+  parseChunkParam,
+  readRouteParams,
+  routes,
+  type RouteParams,
+} from "./lib/routes";
+import {
+  countActiveFilters,
+  filterResultsByDateIndexed,
+  filterResultsBySearchRequest,
+} from "./lib/searchFilters";
+import { parseSearchQuery, toSemanticSearchRequest } from "./lib/queryParser";
+import { computeSearchFacets, filterResultsByFacets } from "./lib/searchFacets";
+import { getDriveUrl, groupSearchResultsByDocument } from "./lib/searchResults";
+import {
+  Activity,
+  FileText,
+  LayoutList,
+  Layers,
+  MessageSquare,
+  SlidersHorizontal,
+} from "lucide-react";
 
 // Create a query client with default options
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       retry: (failureCount, error: any) => {
-        // Don't retry on 4xx errors (client errors)
+        // Don't retry on 4xx errors (client errors) or cancelled requests
         if (error?.response?.status >= 400 && error?.response?.status < 500) {
           return false;
         }
+        if (isRequestCancelled(error)) return false;
         return failureCount < 2;
       },
       staleTime: 5 * 60 * 1000, // 5 minutes
@@ -27,81 +89,472 @@ const queryClient = new QueryClient({
     },
     mutations: {
       retry: (failureCount, error: any) => {
-        // Don't retry on 4xx errors (client errors)
+        // Don't retry on 4xx errors (client errors) or cancelled requests
         if (error?.response?.status >= 400 && error?.response?.status < 500) {
           return false;
         }
+        if (isRequestCancelled(error)) return false;
         return failureCount < 1;
       },
     },
   },
 });
 
+// Search results may carry the document id in different fields
+const getResultDocumentId = (result: SearchResult): string | undefined =>
+  result.id || result.documentId || result._id;
+
+interface LocationState {
+  // Full search result behind /doc/:id, when opened from the results list
+  result?: SearchResult;
+  // Preview tab to open on, e.g. "summary" from the command palette
+  view?: SnippetPreviewViewMode;
+  // Documents picked for /compare and when they were picked
+  documents?: ComparisonDocument[];
+  openedAt?: number;
+}
+
 function MainApp() {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedFolderId, setSelectedFolderId] = useState<
-    string | undefined
-  >();
-  const [selectedDocumentId, setSelectedDocumentId] = useState<
-    string | undefined
-  >();
-  const [selectedResult, setSelectedResult] = useState<SearchResult | null>(
-    null
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const locationState = location.state as LocationState | null;
+
+  const routeParams = readRouteParams(searchParams);
+  const {
+    q: searchQuery = "",
+    folder: selectedFolderId,
+    document: selectedDocumentId,
+    mode: searchMode,
+  } = routeParams;
+  const scope: RouteParams = {
+    folder: selectedFolderId,
+    document: selectedDocumentId,
+  };
+  const searchFilters = getSearchFilters(routeParams);
+  // Everything that identifies the current search, carried across views
+  const searchState: RouteParams = {
+    q: searchQuery,
+    mode: searchMode,
+    ...scope,
+    ...searchFilters,
+  };
+  const searchKey = routes.search(searchState);
+  const activeFilterCount = countActiveFilters(searchFilters);
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+
+  const chatMatch = useMatch(ROUTE_PATTERNS.chat);
+  const searchMatch = useMatch(ROUTE_PATTERNS.search);
+  const documentMatch = useMatch(ROUTE_PATTERNS.document);
+  const documentChunkMatch = useMatch(ROUTE_PATTERNS.documentChunk);
+  const compareMatch = useMatch(ROUTE_PATTERNS.compare);
+
+  const previewMatch = documentChunkMatch || documentMatch;
+  const previewDocumentId = previewMatch?.params.documentId;
+  const previewChunkIndex = parseChunkParam(
+    documentChunkMatch?.params.chunkIndex
+  );
+  const previewResult = locationState?.result;
+  const selectedResult = useMemo<SearchResult | null>(
+    () =>
+      previewDocumentId ? { ...previewResult, id: previewDocumentId } : null,
+    [previewDocumentId, previewResult]
+  );
+
+  // A document preview opened from search keeps the results behind it
+  const showSearchResults = !!searchMatch || (!!previewMatch && !!searchQuery);
+
+  // Remember the open conversation so leaving search or a preview returns to it
+  const [lastChatSessionId, setLastChatSessionId] = useState<string>();
+  const routeSessionId = chatMatch?.params.sessionId;
+  useEffect(() => {
+    if (routeSessionId || location.pathname === "/") {
+      setLastChatSessionId(routeSessionId);
+    }
+  }, [routeSessionId, location.pathname]);
+  const chatSessionId =
+    routeSessionId || location.pathname === "/"
+      ? routeSessionId
+      : lastChatSessionId;
+
+  // Reopen the most recent conversation when the app starts on a new chat
+  const { data: chatSessions, isSuccess: hasLoadedSessions } =
+    useChatSessions();
+  const hasRestoredSessionRef = useRef(false);
+  useEffect(() => {
+    // Runs once, as soon as the saved sessions are known
+    if (hasRestoredSessionRef.current || !hasLoadedSessions) return;
+    hasRestoredSessionRef.current = true;
+    if (location.pathname === "/" && chatSessions.length > 0) {
+      navigate(
+        routes.chat(chatSessions[0].id, {
+          folder: selectedFolderId,
+          document: selectedDocumentId,
+        }),
+        { replace: true }
+      );
+    }
+  }, [
+    hasLoadedSessions,
+    chatSessions,
+    location.pathname,
+    selectedFolderId,
+    selectedDocumentId,
+    navigate,
+  ]);
+
+  // A session opened by URL asks within the scope it was saved with, unless
+  // the URL names a scope of its own
+  const scopeRestoredSessionIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!routeSessionId || !hasLoadedSessions) return;
+    if (scopeRestoredSessionIdRef.current === routeSessionId) return;
+    scopeRestoredSessionIdRef.current = routeSessionId;
+
+    const session = chatSessions.find(({ id }) => id === routeSessionId);
+    if (!session || selectedFolderId || selectedDocumentId) return;
+    if (!session.folderId && !session.documentId) return;
+    navigate(
+      routes.chat(session.id, {
+        ...readRouteParams(searchParams),
+        folder: session.folderId,
+        document: session.documentId,
+      }),
+      { replace: true }
+    );
+  }, [
+    routeSessionId,
+    hasLoadedSessions,
+    chatSessions,
+    selectedFolderId,
+    selectedDocumentId,
+    searchParams,
+    navigate,
+  ]);
+
+  // The URL keeps the query as typed; operators in it become request fields
+  const parsedQuery = useMemo(
+    () => parseSearchQuery(searchQuery),
+    [searchQuery]
+  );
+  const { query: semanticQuery, ...searchRequest } = toSemanticSearchRequest(
+    parsedQuery,
+    {
+      mode: searchMode,
+      limit: 20,
+      threshold: searchFilters.threshold,
+      documentIds: searchFilters.documentIds,
+      fileTypes: searchFilters.fileTypes,
+      indexedAfter: searchFilters.dateFrom,
+      indexedBefore: searchFilters.dateTo,
+    }
   );
-  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
-  const [showSearchResults, setShowSearchResults] = useState(false);
 
   const {
     data: searchData,
     isLoading: isSearchLoading,
     error: searchError,
-  } = useSearch(
-    searchQuery,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteSearch(
+    semanticQuery,
     {
       folderId: selectedFolderId,
       documentId: selectedDocumentId,
-      limit: 20,
+      ...searchRequest,
     },
     {
-      enabled: !!searchQuery && showSearchResults,
+      enabled:
+        !!semanticQuery && parsedQuery.errors.length === 0 && showSearchResults,
     }
   );
   console.log("searchData", searchData);
 
+  // Backends that ignore the indexed-date range get it applied here too
+  const { dateFrom, dateTo } = searchFilters;
+  const searchResults = useMemo(
+    () =>
+      filterResultsByDateIndexed(
+        filterResultsBySearchRequest(searchData?.results || [], {
+          query: parsedQuery.text,
+          folderName: parsedQuery.folderName,
+          createdAfter: parsedQuery.createdAfter,
+          phrases: parsedQuery.phrases,
+          excludeTerms: parsedQuery.excludeTerms,
+        }),
+        { dateFrom, dateTo }
+      ),
+    [searchData, parsedQuery, dateFrom, dateTo]
+  );
+
+  // Facet picks only apply to the search they were made on
+  const [facetState, setFacetState] = useState<{
+    searchKey: string;
+    selection: SearchFacetSelection;
+  }>({ searchKey: "", selection: {} });
+  const facetSelection = useMemo(
+    () => (facetState.searchKey === searchKey ? facetState.selection : {}),
+    [facetState, searchKey]
+  );
+  // Backend facet counts only hold while nothing is filtered out on the
+  // client; otherwise they are counted over the results shown
+  const hasClientFilteredResults =
+    Object.values(facetSelection).some((values) => values?.length) ||
+    searchResults.length !== (searchData?.results.length || 0);
+  const serverFacets = hasClientFilteredResults
+    ? undefined
+    : searchData?.facets;
+  const searchFacets = useMemo(
+    () => serverFacets || computeSearchFacets(searchResults, facetSelection),
+    [serverFacets, searchResults, facetSelection]
+  );
+  const facetedResults = useMemo(
+    () => filterResultsByFacets(searchResults, facetSelection),
+    [searchResults, facetSelection]
+  );
+
+  // Every loaded result was filtered out on the client, but the server has
+  // more pages that may match
+  const hasUnloadedMatches =
+    !!searchData?.results.length &&
+    facetedResults.length === 0 &&
+    !!hasNextPage;
+
+  const handleFacetSelectionChange = (selection: SearchFacetSelection) => {
+    setFacetState({ searchKey, selection });
+  };
+
+  // Grouped view shows one card per document instead of one row per chunk
+  const [resultsView, setResultsView] = useState<SearchResultsView>("grouped");
+  const groupedResults = useMemo(
+    () =>
+      resultsView === "grouped"
+        ? groupSearchResultsByDocument(facetedResults)
+        : [],
+    [resultsView, facetedResults]
+  );
+
+  // Results reachable with j/k: one per card in the grouped view
+  const navigableResults = useMemo(
+    () =>
+      resultsView === "grouped"
+        ? groupedResults.flatMap((item) =>
+            item.snippets[0]?.result ? [item.snippets[0].result] : []
+          )
+        : facetedResults,
+    [resultsView, groupedResults, facetedResults]
+  );
+
+  // Like facet picks, the keyboard selection belongs to one search and view
+  const resultsKey = `${searchKey}#${resultsView}`;
+  const [activeResult, setActiveResult] = useState<{
+    resultsKey: string;
+    index: number;
+  }>({ resultsKey: "", index: -1 });
+  const activeResultIndex =
+    activeResult.resultsKey === resultsKey
+      ? Math.min(activeResult.index, navigableResults.length - 1)
+      : -1;
+  const [isShortcutsHelpOpen, setIsShortcutsHelpOpen] = useState(false);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [isStatsDialogOpen, setIsStatsDialogOpen] = useState(false);
+  const [isIndexingActivityOpen, setIsIndexingActivityOpen] = useState(false);
+  const activeIndexingJobCount = useIndexingJobs().filter(
+    (job) => job.state === "queued" || job.state === "running"
+  ).length;
+
+  const moveActiveResult = (offset: number) => {
+    if (navigableResults.length === 0) return;
+    const index =
+      activeResultIndex < 0
+        ? 0
+        : Math.min(
+            Math.max(activeResultIndex + offset, 0),
+            navigableResults.length - 1
+          );
+    setActiveResult({ resultsKey, index });
+  };
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Keep the results scroll position per search, e.g. after back/forward,
+  // loading again the pages it was in
+  const resultsScrollRef = useScrollRestoration<HTMLDivElement>(searchKey, {
+    isReady: !!searchData,
+    pageCount: searchData?.pageCount,
+    hasMore: !!hasNextPage,
+    onLoadMore: handleLoadMore,
+  });
+
+  const addSearchHistory = useAddSearchHistory();
+
+  const runSearch = (search: StoredSearch) => {
+    addSearchHistory.mutate(search);
+    navigate(routes.search(search));
+  };
+
   const handleSearch = (
     query: string,
     folderId?: string,
     documentId?: string
   ) => {
-    setSearchQuery(query);
-    setShowSearchResults(true);
-    if (folderId) setSelectedFolderId(folderId);
-    if (documentId) setSelectedDocumentId(documentId);
+    runSearch({
+      q: query,
+      folder: folderId || selectedFolderId,
+      document: documentId || selectedDocumentId,
+      mode: searchMode,
+      ...searchFilters,
+    });
+  };
+
+  const handleModeChange = (mode: SearchMode) => {
+    navigate(routes.withParams(location.pathname, { ...searchState, mode }), {
+      replace: true,
+      state: location.state,
+    });
+  };
+
+  // Filters refine the current view like scope changes do
+  const handleFiltersChange = (filters: SearchFilters) => {
+    navigate(
+      routes.withParams(location.pathname, {
+        q: searchQuery,
+        mode: searchMode,
+        ...scope,
+        ...filters,
+      }),
+      { replace: true, state: location.state }
+    );
+  };
+
+  // Scope changes refine the current view rather than adding history entries
+  const updateScope = (nextScope: RouteParams) => {
+    navigate(
+      routes.withParams(location.pathname, {
+        q: searchQuery,
+        mode: searchMode,
+        ...searchFilters,
+        ...nextScope,
+      }),
+      { replace: true, state: location.state }
+    );
   };
 
   const handleFolderSelect = (folderId: string) => {
-    setSelectedFolderId(folderId);
-    setSelectedDocumentId(undefined);
+    updateScope({ folder: folderId });
   };
 
   const handleDocumentSelect = (documentId: string) => {
-    setSelectedDocumentId(documentId);
-    setSelectedFolderId(undefined);
+    updateScope({ document: documentId });
+  };
+
+  const handleChatSessionChange = (
+    sessionId: string | null,
+    sessionScope?: ChatScope
+  ) => {
+    navigate(
+      routes.chat(
+        sessionId,
+        sessionScope
+          ? { folder: sessionScope.folderId, document: sessionScope.documentId }
+          : scope
+      ),
+      // A new chat has no history entry worth going back to
+      { replace: location.pathname === "/" }
+    );
+  };
+
+  const handleCompareDocuments = (documents: ComparisonDocument[]) => {
+    navigate(routes.compare(scope), {
+      state: { documents, openedAt: Date.now() },
+    });
   };
 
   const handleResultClick = (result: SearchResult) => {
-    setSelectedResult(result);
-    setIsPreviewOpen(true);
+    const documentId = getResultDocumentId(result);
+    if (!documentId) return;
+    navigate(routes.document(documentId, null, searchState), {
+      state: { result },
+    });
+  };
+
+  const activeResultItem = navigableResults[activeResultIndex];
+
+  useKeyboardShortcuts(
+    {
+      j: () => moveActiveResult(1),
+      k: () => moveActiveResult(-1),
+      Enter: () => activeResultItem && handleResultClick(activeResultItem),
+      o: () => {
+        if (!activeResultItem) return;
+        window.open(
+          getDriveUrl(activeResultItem),
+          "_blank",
+          "noopener,noreferrer"
+        );
+      },
+    },
+    showSearchResults &&
+      !selectedResult &&
+      !isShortcutsHelpOpen &&
+      !isCommandPaletteOpen &&
+      !isStatsDialogOpen
+  );
+
+  useKeyboardShortcuts({
+    "?": () => setIsShortcutsHelpOpen((isOpen) => !isOpen),
+    "Mod+k": () => setIsCommandPaletteOpen((isOpen) => !isOpen),
+  });
+
+  const handlePreviewChunkChange = (chunkIndex: number | null) => {
+    if (!previewDocumentId) return;
+    navigate(routes.document(previewDocumentId, chunkIndex, searchState), {
+      state: location.state,
+    });
   };
 
   const handleClosePreview = () => {
-    setIsPreviewOpen(false);
-    setSelectedResult(null);
+    navigate(
+      searchQuery
+        ? routes.search(searchState)
+        : routes.chat(lastChatSessionId, scope)
+    );
   };
 
   const handleBackToChat = () => {
-    setShowSearchResults(false);
-    setSearchQuery("");
+    navigate(routes.chat(lastChatSessionId, scope));
+  };
+
+  const handlePaletteChatSessionSelect = (session: ChatSession) => {
+    handleChatSessionChange(session.id, {
+      folderId: session.folderId,
+      documentId: session.documentId,
+    });
+  };
+
+  // Opens the document preview from the sidebar, over the current search
+  const handlePreviewDocument = (documentId: string) => {
+    navigate(routes.document(documentId, null, searchState));
+  };
+
+  // A fresh conversation scoped to just this document
+  const handleAskAboutDocument = (documentId: string) => {
+    handleChatSessionChange(null, { documentId });
+  };
+
+  // Opens the document on its Summary tab, keeping the open result if any
+  const handleSummarizeDocument = (documentId: string) => {
+    navigate(routes.document(documentId, null, searchState), {
+      state: {
+        result: documentId === previewDocumentId ? previewResult : undefined,
+        view: "summary",
+      },
+    });
   };
 
   return (
@@ -124,6 +577,8 @@ function MainApp() {
             </div>
           </div>
 
+          <SavedSearches onRunSearch={runSearch} />
+
           {/* Sidebar Content */}
           <div className="flex-1 overflow-hidden">
             <Sidebar
@@ -131,6 +586,9 @@ function MainApp() {
               onDocumentSelect={handleDocumentSelect}
               selectedFolderId={selectedFolderId}
               selectedDocumentId={selectedDocumentId}
+              onCompareDocuments={handleCompareDocuments}
+              onPreviewDocument={handlePreviewDocument}
+              onAskAboutDocument={handleAskAboutDocument}
             />
           </div>
         </div>
@@ -140,15 +598,75 @@ function MainApp() {
       <div className="flex-1 flex flex-col">
         {/* Top Search Bar */}
         <div className="flex-shrink-0 bg-white border-b border-gray-200 px-6 py-4">
-          <SearchBar
-            onSearch={handleSearch}
-            placeholder="Search documents or ask AI a question..."
+          <div className="flex items-start space-x-3">
+            <SearchBar
+              onSearch={handleSearch}
+              placeholder="Search documents or ask AI a question..."
+              mode={searchMode}
+              onModeChange={handleModeChange}
+              onSearchSelect={runSearch}
+              currentQuery={searchQuery}
+              className="flex-1"
+            />
+            <button
+              onClick={() => setIsFilterPanelOpen(!isFilterPanelOpen)}
+              className={`relative flex items-center space-x-2 px-3 py-3 text-sm border rounded-lg transition-colors ${
+                isFilterPanelOpen
+                  ? "border-blue-300 bg-blue-50 text-blue-700"
+                  : "border-gray-300 text-gray-600 hover:text-gray-900 hover:bg-gray-50"
+              }`}
+              aria-expanded={isFilterPanelOpen}
+              title="Search filters"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              <span>Filters</span>
+              {activeFilterCount > 0 && (
+                <span className="flex items-center justify-center min-w-[1.25rem] h-5 px-1 text-xs font-medium text-white bg-blue-600 rounded-full">
+                  {activeFilterCount}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setIsIndexingActivityOpen(!isIndexingActivityOpen)}
+              className={`relative flex items-center px-3 py-3 text-sm border rounded-lg transition-colors ${
+                isIndexingActivityOpen
+                  ? "border-blue-300 bg-blue-50 text-blue-700"
+                  : "border-gray-300 text-gray-600 hover:text-gray-900 hover:bg-gray-50"
+              }`}
+              aria-expanded={isIndexingActivityOpen}
+              title="Indexing activity"
+            >
+              <Activity className="w-4 h-4" />
+              {activeIndexingJobCount > 0 && (
+                <span className="ml-2 flex items-center justify-center min-w-[1.25rem] h-5 px-1 text-xs font-medium text-white bg-blue-600 rounded-full">
+                  {activeIndexingJobCount}
+                </span>
+              )}
+            </button>
+          </div>
+          {isFilterPanelOpen && (
+            <SearchFilterPanel
+              filters={searchFilters}
+              onChange={handleFiltersChange}
+              className="mt-3"
+            />
+          )}
+          <FilterChips
+            filters={searchFilters}
+            onChange={handleFiltersChange}
+            className="mt-3"
           />
         </div>
 
         {/* Main Panel */}
         <div className="flex-1 overflow-hidden">
-          {showSearchResults ? (
+          {compareMatch ? (
+            <ComparisonWorkspace
+              key={locationState?.openedAt}
+              initialDocuments={locationState?.documents || []}
+              onClose={handleBackToChat}
+            />
+          ) : showSearchResults ? (
             <div className="h-full flex flex-col">
               {/* Search Results Header */}
               <div className="flex-shrink-0 px-6 py-4 bg-white border-b border-gray-200">
@@ -156,37 +674,119 @@ function MainApp() {
                   <h2 className="text-lg font-semibold text-gray-900">
                     Search Results
                   </h2>
-                  <button
-                    onClick={handleBackToChat}
-                    className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
-                  >
-                    <MessageSquare className="w-4 h-4" />
-                    <span>Back to Chat</span>
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    <SaveSearchButton
+                      key={searchKey}
+                      search={{ ...searchState, q: searchQuery }}
+                    />
+                    <div
+                      role="radiogroup"
+                      aria-label="Results view"
+                      className="flex items-center rounded-md bg-gray-100 p-0.5"
+                    >
+                      {(
+                        [
+                          {
+                            view: "grouped",
+                            label: "By document",
+                            icon: Layers,
+                          },
+                          {
+                            view: "flat",
+                            label: "All matches",
+                            icon: LayoutList,
+                          },
+                        ] as const
+                      ).map(({ view, label, icon: Icon }) => (
+                        <button
+                          key={view}
+                          role="radio"
+                          aria-checked={resultsView === view}
+                          onClick={() => setResultsView(view)}
+                          className={`flex items-center space-x-1 px-2 py-1 text-sm rounded transition-colors ${
+                            resultsView === view
+                              ? "bg-white text-blue-700 shadow-sm"
+                              : "text-gray-500 hover:text-gray-700"
+                          }`}
+                        >
+                          <Icon className="w-4 h-4" />
+                          <span>{label}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={handleBackToChat}
+                      className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                    >
+                      <MessageSquare className="w-4 h-4" />
+                      <span>Back to Chat</span>
+                    </button>
+                  </div>
                 </div>
               </div>
 
-              {/* Search Results */}
-              <div className="flex-1 overflow-auto px-6 py-4">
-                <ResultsList
-                  results={searchData?.results || []}
-                  isLoading={isSearchLoading}
-                  hasMore={searchData?.hasMore || false}
-                  onResultClick={handleResultClick}
-                  searchQuery={searchQuery}
-                  showStats={true}
-                  showSimilar={true}
-                  selectedDocumentId={selectedResult?.id}
+              <div className="flex-1 flex overflow-hidden">
+                {/* Result Facets */}
+                <SearchFacets
+                  facets={searchFacets}
+                  isServerTotals={!!serverFacets}
+                  selection={facetSelection}
+                  onSelectionChange={handleFacetSelectionChange}
+                  className="w-60 flex-shrink-0 overflow-y-auto bg-white border-r border-gray-200"
                 />
 
-                {/* Error State */}
-                {searchError && (
-                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
-                    <div className="text-red-600 text-sm">
-                      <strong>Error:</strong> {searchError.message}
+                {/* Search Results */}
+                <div
+                  ref={resultsScrollRef}
+                  className="flex-1 overflow-auto px-6 py-4"
+                >
+                  {hasUnloadedMatches ? (
+                    <EmptyState
+                      title="No matches on the loaded pages"
+                      description="The results loaded so far are all outside your filters. Later pages may still match."
+                      icon={<FileText className="h-12 w-12 text-gray-400" />}
+                      action={{
+                        label: isFetchingNextPage
+                          ? "Loading..."
+                          : "Load more results",
+                        onClick: handleLoadMore,
+                      }}
+                      className="mt-8"
+                    />
+                  ) : resultsView === "grouped" ? (
+                    <SearchResults
+                      results={groupedResults}
+                      searchQuery={parsedQuery.text}
+                      onResultClick={handleResultClick}
+                      isLoading={isSearchLoading || isFetchingNextPage}
+                      hasMore={hasNextPage}
+                      onLoadMore={handleLoadMore}
+                      activeIndex={activeResultIndex}
+                    />
+                  ) : (
+                    <ResultsList
+                      results={facetedResults}
+                      isLoading={isSearchLoading || isFetchingNextPage}
+                      hasMore={hasNextPage}
+                      onLoadMore={handleLoadMore}
+                      onResultClick={handleResultClick}
+                      searchQuery={parsedQuery.text}
+                      showStats={true}
+                      showSimilar={true}
+                      selectedDocumentId={selectedResult?.id}
+                      activeIndex={activeResultIndex}
+                    />
+                  )}
+
+                  {/* Error State */}
+                  {searchError && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+                      <div className="text-red-600 text-sm">
+                        <strong>Error:</strong> {searchError.message}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
             </div>
           ) : (
@@ -195,6 +795,8 @@ function MainApp() {
               <ChatPanel
                 selectedFolderId={selectedFolderId}
                 selectedDocumentId={selectedDocumentId}
+                sessionId={chatSessionId}
+                onSessionChange={handleChatSessionChange}
               />
             </div>
           )}
@@ -204,9 +806,43 @@ function MainApp() {
       {/* Snippet Preview Modal */}
       <SnippetPreview
         result={selectedResult}
-        isOpen={isPreviewOpen}
+        isOpen={!!selectedResult}
         onClose={handleClosePreview}
-        searchQuery={searchQuery}
+        searchQuery={parsedQuery.text}
+        chunkIndex={previewChunkIndex}
+        onChunkIndexChange={handlePreviewChunkChange}
+        initialViewMode={locationState?.view}
+      />
+
+      <KeyboardShortcutsHelp
+        isOpen={isShortcutsHelpOpen}
+        onClose={() => setIsShortcutsHelpOpen(false)}
+      />
+
+      <CommandPalette
+        isOpen={isCommandPaletteOpen}
+        onClose={() => setIsCommandPaletteOpen(false)}
+        selectedFolderId={selectedFolderId}
+        currentDocumentId={previewDocumentId || selectedDocumentId}
+        hasConversation={!!chatSessionId}
+        onFolderSelect={handleFolderSelect}
+        onDocumentSelect={handleDocumentSelect}
+        onChatSessionSelect={handlePaletteChatSessionSelect}
+        onRunSearch={runSearch}
+        onSummarizeDocument={handleSummarizeDocument}
+        onClearConversation={() => handleChatSessionChange(null)}
+        onOpenStats={() => setIsStatsDialogOpen(true)}
+      />
+
+      <SearchStatsDialog
+        isOpen={isStatsDialogOpen}
+        onClose={() => setIsStatsDialogOpen(false)}
+      />
+
+      <IndexingActivity
+        isOpen={isIndexingActivityOpen}
+        onOpen={() => setIsIndexingActivityOpen(true)}
+        onClose={() => setIsIndexingActivityOpen(false)}
       />
     </div>
   );
@@ -216,7 +852,9 @@ function App() {
   return (
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
-        <MainApp />
+        <BrowserRouter>
+          <MainApp />
+        </BrowserRouter>
       </QueryClientProvider>
     </ErrorBoundary>
   );
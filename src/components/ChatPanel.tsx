@@ -1,4 +1,10 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, {
+  useState,
+  useRef,
+  useEffect,
+  useMemo,
+  useCallback,
+} from "react";
 import {
   PaperAirplaneIcon,
   UserIcon,
@@ -6,34 +12,92 @@ import {
   ClipboardDocumentIcon,
   ArrowPathIcon,
   DocumentTextIcon,
+  StopIcon,
+  ClockIcon,
+  BeakerIcon,
 } from "@heroicons/react/24/outline";
 import { ChatBubbleLeftRightIcon } from "@heroicons/react/24/solid";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiService } from "../services/api";
-import type { RAGQueryRequest, RAGResponse, RAGSource } from "../types/api";
+import { useMutation } from "@tanstack/react-query";
+import { apiService, isRequestCancelled } from "../services/api";
+import { chatStorage } from "../services/chatStorage";
+import { useRAGConfig } from "../hooks/useApi";
+import {
+  useChatSessions,
+  useSaveChatSession,
+  useRenameChatSession,
+  useDeleteChatSession,
+} from "../hooks/useChatSessions";
+import type {
+  RAGQueryRequest,
+  RAGResponse,
+  RAGSource,
+  ConversationHistory,
+  MultiStepRAGRequest,
+} from "../types/api";
+import type { ChatMessage, ChatScope, ChatSession } from "../types/chat";
 import SnippetView from "./SnippetView";
-
-interface Message {
-  id: string;
-  type: "user" | "assistant";
-  content: string;
-  sources?: RAGSource[];
-  timestamp: Date;
-  isLoading?: boolean;
-}
+import ChatSessionList from "./ChatSessionList";
+import MarkdownMessage from "./MarkdownMessage";
+import ResearchSteps from "./ResearchSteps";
+import { extractCitations } from "../lib/citations";
+
+type ConversationMode = "continue" | "fresh";
+
+type ChatRequest =
+  | { mode: "fresh" | "continue"; request: RAGQueryRequest }
+  | { mode: "research"; request: MultiStepRAGRequest };
+
+// Used until /rag/config reports the backend limit
+const DEFAULT_MAX_CONVERSATION_HISTORY = 10;
+
+const DEFAULT_MAX_RESEARCH_STEPS = 3;
+const MAX_RESEARCH_STEP_OPTIONS = [2, 3, 4, 5];
+
+// Turns settled chat messages into the history payload for /rag/conversation,
+// keeping only the most recent `limit` entries
+const toConversationHistory = (
+  messages: ChatMessage[],
+  limit: number
+): ConversationHistory[] =>
+  messages
+    .filter(
+      (msg) => !msg.isLoading && !msg.isStreaming && !msg.isError && msg.content
+    )
+    .map((msg) => ({
+      role: msg.type,
+      content: msg.content,
+      timestamp: msg.timestamp.toISOString(),
+    }))
+    .slice(-limit);
+
+const getSourceElementId = (messageId: string, index: number) =>
+  `source-${messageId}-${index}`;
 
 interface ChatPanelProps {
   selectedFolderId?: string;
   selectedDocumentId?: string;
+  // The open session comes from the URL; undefined means a new conversation
+  sessionId?: string;
+  onSessionChange: (sessionId: string | null, scope?: ChatScope) => void;
   className?: string;
 }
 
 const ChatPanel: React.FC<ChatPanelProps> = ({
   selectedFolderId,
   selectedDocumentId,
+  sessionId,
+  onSessionChange,
   className,
 }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const activeSessionId = sessionId ?? null;
+  const [showSessions, setShowSessions] = useState(false);
+  const [conversationMode, setConversationMode] =
+    useState<ConversationMode>("continue");
+  const [isDeepResearch, setIsDeepResearch] = useState(false);
+  const [maxResearchSteps, setMaxResearchSteps] = useState(
+    DEFAULT_MAX_RESEARCH_STEPS
+  );
   const [inputValue, setInputValue] = useState("");
   const [isComposing, setIsComposing] = useState(false);
   const [selectedSnippet, setSelectedSnippet] = useState<{
@@ -43,33 +107,121 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const queryClient = useQueryClient();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const restoredMessagesRef = useRef<ChatMessage[] | null>(null);
+  // Session whose messages are currently shown; null until the first load
+  const loadedSessionIdRef = useRef<string | undefined | null>(null);
+  const scopeRef = useRef({
+    folderId: selectedFolderId,
+    documentId: selectedDocumentId,
+  });
+  scopeRef.current = {
+    folderId: selectedFolderId,
+    documentId: selectedDocumentId,
+  };
+
+  // Persisted chat sessions
+  const { data: sessions = [], isLoading: isSessionsLoading } =
+    useChatSessions();
+  const { mutate: saveSession } = useSaveChatSession();
+  const renameSessionMutation = useRenameChatSession();
+  const deleteSessionMutation = useDeleteChatSession();
+
+  const { data: ragConfig } = useRAGConfig();
+  const maxConversationHistory =
+    ragConfig?.limits?.maxConversationHistory ||
+    DEFAULT_MAX_CONVERSATION_HISTORY;
+
+  // Source numbers cited by each answer. Answers without any citation markers
+  // are left out so their sources are not all flagged as uncited.
+  const citedSources = useMemo(() => {
+    const cited = new Map<string, Set<number>>();
+    messages.forEach((msg) => {
+      if (msg.type !== "assistant" || !msg.sources?.length) return;
+      const citations = extractCitations(msg.content, msg.sources.length);
+      if (citations.size > 0) cited.set(msg.id, citations);
+    });
+    return cited;
+  }, [messages]);
 
-  // RAG Query Mutation
+  // RAG Mutation: questions and follow-ups stream, follow-ups carrying the
+  // session history; deep research goes through /rag/multi-step
   const ragMutation = useMutation({
-    mutationFn: (request: RAGQueryRequest) => apiService.ragQuery(request),
+    mutationFn: (chatRequest: ChatRequest) => {
+      const signal = abortControllerRef.current?.signal;
+      if (chatRequest.mode === "research") {
+        return apiService.multiStepRAG(chatRequest.request, signal);
+      }
+      return apiService.ragQueryStream(
+        chatRequest.request,
+        { onToken: appendToLoadingMessage },
+        signal
+      );
+    },
     onSuccess: (data: RAGResponse) => {
       console.log("RAG Query Success:", data);
       const resData = data?.data;
-      updateLoadingMessage(resData.answer, resData.sources);
+      updateLoadingMessage(resData.answer, {
+        sources: resData.sources,
+        steps: resData.steps,
+      });
     },
     onError: (error: any) => {
+      if (isRequestCancelled(error)) {
+        cancelLoadingMessage();
+        return;
+      }
       updateLoadingMessage(
         `Sorry, I encountered an error: ${error.message || "Unknown error occurred"}`,
-        undefined
+        { isError: true }
       );
     },
   });
 
-  const updateLoadingMessage = (content: string, sources?: RAGSource[]) => {
+  const updateLoadingMessage = (
+    content: string,
+    details: Pick<ChatMessage, "sources" | "steps" | "isError"> = {}
+  ) => {
     setMessages((prev) =>
       prev.map((msg) =>
-        msg.isLoading
+        msg.isLoading || msg.isStreaming
           ? {
               ...msg,
               content,
-              sources,
+              ...details,
+              isLoading: false,
+              isStreaming: false,
+            }
+          : msg
+      )
+    );
+  };
+
+  const appendToLoadingMessage = (token: string) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.isLoading || msg.isStreaming
+          ? {
+              ...msg,
+              content: msg.content + token,
+              isLoading: false,
+              isStreaming: true,
+            }
+          : msg
+      )
+    );
+  };
+
+  // Keep whatever was streamed so far and mark the message as stopped
+  const cancelLoadingMessage = () => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.isLoading || msg.isStreaming
+          ? {
+              ...msg,
               isLoading: false,
+              isStreaming: false,
+              isCancelled: true,
             }
           : msg
       )
@@ -86,17 +238,77 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     inputRef.current?.focus();
   }, []);
 
-  const handleSendMessage = async (content: string) => {
+  // Abort any in-flight request on unmount
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Load the session named in the URL, e.g. after back/forward navigation
+  useEffect(() => {
+    if (sessionId === loadedSessionIdRef.current) return;
+    loadedSessionIdRef.current = sessionId;
+    abortControllerRef.current?.abort();
+
+    if (!sessionId) {
+      restoredMessagesRef.current = null;
+      setMessages([]);
+      return;
+    }
+
+    let isCancelled = false;
+    chatStorage
+      .getSession(sessionId)
+      .then((session) => {
+        if (isCancelled) return;
+        const sessionMessages = session?.messages || [];
+        restoredMessagesRef.current = sessionMessages;
+        setMessages(sessionMessages);
+      })
+      .catch((error) => {
+        console.error("Failed to load chat session:", error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [sessionId]);
+
+  // Persist the active session whenever its messages settle
+  useEffect(() => {
+    if (!activeSessionId || messages.length === 0) return;
+    if (messages === restoredMessagesRef.current) return;
+    if (messages.some((msg) => msg.isStreaming)) return;
+
+    saveSession({
+      sessionId: activeSessionId,
+      messages,
+      scope: scopeRef.current,
+    });
+  }, [messages, activeSessionId, saveSession]);
+
+  const handleSendMessage = async (
+    content: string,
+    previousMessages: ChatMessage[] = messages
+  ) => {
     if (!content.trim() || ragMutation.isPending) return;
 
-    const userMessage: Message = {
+    let currentSessionId = activeSessionId;
+    if (!currentSessionId) {
+      // Mark the new session as loaded so the in-flight exchange survives the
+      // URL update
+      currentSessionId = `session-${Date.now()}`;
+      loadedSessionIdRef.current = currentSessionId;
+      onSessionChange(currentSessionId);
+    }
+
+    const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
       type: "user",
       content: content.trim(),
       timestamp: new Date(),
     };
 
-    const loadingMessage: Message = {
+    const loadingMessage: ChatMessage = {
       id: `assistant-${Date.now()}`,
       type: "assistant",
       content: "",
@@ -107,6 +319,42 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     setMessages((prev) => [...prev, userMessage, loadingMessage]);
     setInputValue("");
 
+    abortControllerRef.current = new AbortController();
+
+    const conversationHistory = toConversationHistory(
+      previousMessages,
+      maxConversationHistory
+    );
+
+    // Multi-step answers are built from the question alone
+    if (isDeepResearch) {
+      ragMutation.mutate({
+        mode: "research",
+        request: {
+          question: content.trim(),
+          maxSteps: maxResearchSteps,
+          folderId: selectedFolderId,
+          documentId: selectedDocumentId,
+        },
+      });
+      return;
+    }
+
+    if (conversationMode === "continue" && conversationHistory.length > 0) {
+      ragMutation.mutate({
+        mode: "continue",
+        request: {
+          question: content.trim(),
+          sessionId: currentSessionId,
+          conversationHistory,
+          folderId: selectedFolderId,
+          documentId: selectedDocumentId,
+          maxResults: 5,
+        },
+      });
+      return;
+    }
+
     // Create RAG request
     const ragRequest: RAGQueryRequest = {
       question: content.trim(),
@@ -115,7 +363,12 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
       maxResults: 5,
     };
 
-    ragMutation.mutate(ragRequest);
+    ragMutation.mutate({ mode: "fresh", request: ragRequest });
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
   };
 
   const handleInputSubmit = (e: React.FormEvent) => {
@@ -139,30 +392,53 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
   };
 
   const handleRetryLastMessage = () => {
-    const lastUserMessage = [...messages]
-      .reverse()
-      .find((msg) => msg.type === "user");
-    if (lastUserMessage) {
-      // Remove the last assistant message if it exists
-      setMessages((prev) => {
-        const lastAssistantIndex = prev
-          .map((m) => m.type)
-          .lastIndexOf("assistant");
-        if (lastAssistantIndex !== -1) {
-          return prev.slice(0, lastAssistantIndex);
-        }
-        return prev;
-      });
+    const lastUserIndex = messages.map((m) => m.type).lastIndexOf("user");
+    if (lastUserIndex !== -1) {
+      const lastUserMessage = messages[lastUserIndex];
+      const previousMessages = messages.slice(0, lastUserIndex);
 
-      handleSendMessage(lastUserMessage.content);
+      // Drop the last exchange; it is re-sent below
+      setMessages(previousMessages);
+
+      handleSendMessage(lastUserMessage.content, previousMessages);
     }
   };
 
-  const handleSourceClick = (source: RAGSource) => {
-    // Create Google Drive URL from document ID
-    const driveUrl = `https://drive.google.com/file/d/${source.documentId}`;
-    window.open(driveUrl, "_blank", "noopener,noreferrer");
-  };
+  // Opens the cited chunk in SnippetView, or scrolls to the source card when
+  // the backend did not report which chunk the source came from
+  const openSource = useCallback(
+    (messageId: string, source: RAGSource, index: number) => {
+      if (source.documentId && source.chunkIndex !== undefined) {
+        setSelectedSnippet({
+          documentId: source.documentId,
+          chunkIndex: source.chunkIndex,
+        });
+        return;
+      }
+      document
+        .getElementById(getSourceElementId(messageId, index))
+        ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    },
+    []
+  );
+
+  // One stable citation handler per message, so MarkdownMessage keeps its
+  // memoized renderers while tokens stream in
+  const getCitationClickHandler = useMemo(() => {
+    const handlers = new Map<
+      string,
+      (source: RAGSource, citation: number) => void
+    >();
+    return (messageId: string) => {
+      let handler = handlers.get(messageId);
+      if (!handler) {
+        handler = (source, citation) =>
+          openSource(messageId, source, citation - 1);
+        handlers.set(messageId, handler);
+      }
+      return handler;
+    };
+  }, [openSource]);
 
   const formatTimestamp = (timestamp: Date): string => {
     return timestamp.toLocaleTimeString("en-US", {
@@ -172,251 +448,417 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
   };
 
   const clearConversation = () => {
+    handleStop();
     setMessages([]);
+    onSessionChange(null);
     inputRef.current?.focus();
   };
 
+  const handleSelectSession = (session: ChatSession) => {
+    if (session.id === activeSessionId) return;
+    onSessionChange(session.id, {
+      folderId: session.folderId,
+      documentId: session.documentId,
+    });
+  };
+
+  const handleDeleteSession = (sessionId: string) => {
+    deleteSessionMutation.mutate(sessionId);
+    if (sessionId === activeSessionId) {
+      clearConversation();
+    }
+  };
+
   return (
-    <div className={`flex flex-col h-full bg-white ${className || ""}`}>
-      {/* Header */}
-      <div className="flex-shrink-0 border-b border-gray-200 p-4">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-3">
-            <div className="flex items-center justify-center w-8 h-8 bg-blue-100 rounded-full">
-              <ChatBubbleLeftRightIcon className="w-5 h-5 text-blue-600" />
+    <div className={`flex h-full bg-white ${className || ""}`}>
+      {/* Session History */}
+      {showSessions && (
+        <ChatSessionList
+          className="w-64 flex-shrink-0"
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          isLoading={isSessionsLoading}
+          onSelect={handleSelectSession}
+          onCreate={clearConversation}
+          onRename={(sessionId, title) =>
+            renameSessionMutation.mutate({ sessionId, title })
+          }
+          onDelete={handleDeleteSession}
+        />
+      )}
+
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <div className="flex-shrink-0 border-b border-gray-200 p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="flex items-center justify-center w-8 h-8 bg-blue-100 rounded-full">
+                <ChatBubbleLeftRightIcon className="w-5 h-5 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  AI Assistant
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {selectedFolderId
+                    ? `Searching in selected folder`
+                    : selectedDocumentId
+                      ? `Document context`
+                      : "Ask questions about your documents"}
+                </p>
+              </div>
             </div>
-            <div>
-              <h2 className="text-lg font-semibold text-gray-900">
-                AI Assistant
-              </h2>
-              <p className="text-sm text-gray-500">
-                {selectedFolderId
-                  ? `Searching in selected folder`
-                  : selectedDocumentId
-                    ? `Document context`
-                    : "Ask questions about your documents"}
-              </p>
+
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setShowSessions(!showSessions)}
+                className={`p-2 rounded transition-colors ${
+                  showSessions
+                    ? "bg-blue-100 text-blue-600"
+                    : "text-gray-400 hover:text-gray-600"
+                }`}
+                title="Conversation history"
+              >
+                <ClockIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={clearConversation}
+                className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                title="New conversation"
+              >
+                <ArrowPathIcon className="w-4 h-4" />
+              </button>
             </div>
           </div>
-
-          <button
-            onClick={clearConversation}
-            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
-            title="Clear conversation"
-          >
-            <ArrowPathIcon className="w-4 h-4" />
-          </button>
         </div>
-      </div>
-
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 ? (
-          <div className="text-center py-12">
-            <ChatBubbleLeftRightIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">
-              Ask me anything
-            </h3>
-            <p className="text-gray-500 max-w-md mx-auto">
-              I can help you find information in your documents and answer
-              questions.
-              {selectedFolderId && " I'll search within the selected folder."}
-              {selectedDocumentId && " I'll focus on the selected document."}
-            </p>
-          </div>
-        ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex items-start space-x-3 ${
-                message.type === "user" ? "justify-end" : "justify-start"
-              }`}
-            >
-              {message.type === "assistant" && (
-                <div className="flex-shrink-0 w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                  {message.isLoading ? (
-                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-blue-600 border-t-transparent" />
-                  ) : (
-                    <ChatBubbleLeftRightIcon className="h-4 w-4 text-blue-600" />
-                  )}
-                </div>
-              )}
 
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.length === 0 ? (
+            <div className="text-center py-12">
+              <ChatBubbleLeftRightIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                Ask me anything
+              </h3>
+              <p className="text-gray-500 max-w-md mx-auto">
+                I can help you find information in your documents and answer
+                questions.
+                {selectedFolderId && " I'll search within the selected folder."}
+                {selectedDocumentId && " I'll focus on the selected document."}
+              </p>
+            </div>
+          ) : (
+            messages.map((message) => (
               <div
-                className={`max-w-3xl ${
-                  message.type === "user" ? "order-1" : "order-2"
+                key={message.id}
+                className={`flex items-start space-x-3 ${
+                  message.type === "user" ? "justify-end" : "justify-start"
                 }`}
               >
+                {message.type === "assistant" && (
+                  <div className="flex-shrink-0 w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                    {message.isLoading ? (
+                      <div className="h-4 w-4 animate-spin rounded-full border-2 border-blue-600 border-t-transparent" />
+                    ) : (
+                      <ChatBubbleLeftRightIcon className="h-4 w-4 text-blue-600" />
+                    )}
+                  </div>
+                )}
+
                 <div
-                  className={`rounded-lg px-4 py-3 ${
-                    message.type === "user"
-                      ? "bg-blue-600 text-white"
-                      : "bg-gray-100 text-gray-900"
+                  className={`max-w-3xl ${
+                    message.type === "user" ? "order-1" : "order-2"
                   }`}
                 >
-                  {message.isLoading ? (
-                    <div className="animate-pulse">
-                      <div className="h-4 bg-gray-300 rounded w-3/4 mb-2"></div>
-                      <div className="h-4 bg-gray-300 rounded w-1/2"></div>
-                    </div>
-                  ) : (
-                    <div className="prose prose-sm max-w-none">
-                      <p className="whitespace-pre-wrap">{message.content}</p>
-                    </div>
-                  )}
-                </div>
+                  <div
+                    className={`rounded-lg px-4 py-3 ${
+                      message.type === "user"
+                        ? "bg-blue-600 text-white"
+                        : "bg-gray-100 text-gray-900"
+                    }`}
+                  >
+                    {message.isLoading ? (
+                      <div>
+                        {ragMutation.variables?.mode === "research" && (
+                          <p className="flex items-center mb-2 text-xs text-gray-500">
+                            <BeakerIcon className="w-3 h-3 mr-1" />
+                            Researching in up to{" "}
+                            {ragMutation.variables.request.maxSteps} steps...
+                          </p>
+                        )}
+                        <div className="animate-pulse">
+                          <div className="h-4 bg-gray-300 rounded w-3/4 mb-2"></div>
+                          <div className="h-4 bg-gray-300 rounded w-1/2"></div>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="prose prose-sm max-w-none">
+                        {message.steps && message.steps.length > 0 && (
+                          <ResearchSteps
+                            steps={message.steps}
+                            onSourceClick={(source) =>
+                              openSource(
+                                message.id,
+                                source,
+                                message.sources?.findIndex(
+                                  (s) => s.documentId === source.documentId
+                                ) ?? -1
+                              )
+                            }
+                            className="mb-3"
+                          />
+                        )}
+                        {message.type === "assistant" ? (
+                          <MarkdownMessage
+                            content={message.content}
+                            sources={message.sources}
+                            onCitationClick={getCitationClickHandler(
+                              message.id
+                            )}
+                            isStreaming={message.isStreaming}
+                          />
+                        ) : (
+                          <p className="whitespace-pre-wrap">
+                            {message.content}
+                          </p>
+                        )}
+                        {message.isCancelled && (
+                          <p className="not-prose mt-2 flex items-center text-xs italic text-gray-500">
+                            <StopIcon className="w-3 h-3 mr-1" />
+                            Response stopped
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
 
-                {/* Sources */}
-                {message.sources && message.sources.length > 0 && (
-                  <div className="mt-3 space-y-2">
-                    <h4 className="text-sm font-medium text-gray-700">
-                      Sources:
-                    </h4>
-                    {message.sources.map((source, index) => (
-                      <div
-                        key={index}
-                        className="bg-white border border-gray-200 rounded-lg p-3 hover:bg-gray-50 transition-colors cursor-pointer"
-                        onClick={() => {
-                          if (
-                            source.documentId &&
-                            source.chunkIndex !== undefined
-                          ) {
-                            setSelectedSnippet({
-                              documentId: source.documentId,
-                              chunkIndex: source.chunkIndex,
-                            });
-                          }
-                        }}
-                      >
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center space-x-2">
-                              <DocumentTextIcon className="w-4 h-4 text-gray-500" />
-                              <h5 className="text-sm font-medium text-gray-900 truncate">
-                                {source.fileName || "Untitled Document"}
-                              </h5>
-                            </div>
-                            <p className="text-xs text-gray-500 mt-1 line-clamp-2">
-                              {source.snippet}
-                            </p>
-                            <div className="flex items-center mt-2 space-x-2">
-                              <span className="text-xs text-gray-400">
-                                Relevance:{" "}
-                                {Math.round(source.relevanceScore * 100)}%
-                              </span>
+                  {/* Sources */}
+                  {message.sources && message.sources.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      <h4 className="text-sm font-medium text-gray-700">
+                        Sources:
+                      </h4>
+                      {message.sources.map((source, index) => {
+                        const isUncited =
+                          !message.isStreaming &&
+                          citedSources.has(message.id) &&
+                          !citedSources.get(message.id)!.has(index + 1);
+
+                        return (
+                          <div
+                            key={index}
+                            id={getSourceElementId(message.id, index)}
+                            className={`bg-white border border-gray-200 rounded-lg p-3 hover:bg-gray-50 transition-colors cursor-pointer ${
+                              isUncited ? "opacity-60" : ""
+                            }`}
+                            onClick={() =>
+                              openSource(message.id, source, index)
+                            }
+                          >
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-center space-x-2">
+                                  <span className="flex-shrink-0 px-1.5 rounded text-xs font-semibold text-blue-700 bg-blue-100">
+                                    {index + 1}
+                                  </span>
+                                  <DocumentTextIcon className="w-4 h-4 text-gray-500" />
+                                  <h5 className="text-sm font-medium text-gray-900 truncate">
+                                    {source.fileName || "Untitled Document"}
+                                  </h5>
+                                  {isUncited && (
+                                    <span
+                                      className="flex-shrink-0 px-1.5 py-0.5 rounded text-xs text-amber-700 bg-amber-50 border border-amber-200"
+                                      title="Retrieved but not referenced in the answer"
+                                    >
+                                      Not cited
+                                    </span>
+                                  )}
+                                </div>
+                                <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+                                  {source.snippet}
+                                </p>
+                                <div className="flex items-center mt-2 space-x-2">
+                                  <span className="text-xs text-gray-400">
+                                    Relevance:{" "}
+                                    {Math.round(source.relevanceScore * 100)}%
+                                  </span>
+                                </div>
+                                <p className="text-xs text-blue-600 mt-1">
+                                  Click to view full snippet
+                                </p>
+                              </div>
+                              <div className="flex items-center space-x-1 ml-2">
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    openSource(message.id, source, index);
+                                  }}
+                                  className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                                  title="View snippet"
+                                >
+                                  <DocumentTextIcon className="w-4 h-4" />
+                                </button>
+                                <a
+                                  href={`https://drive.google.com/file/d/${source.documentId}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  onClick={(e) => e.stopPropagation()}
+                                  className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                                  title="Open in Google Drive"
+                                >
+                                  <ArrowTopRightOnSquareIcon className="w-4 h-4" />
+                                </a>
+                              </div>
                             </div>
-                            <p className="text-xs text-blue-600 mt-1">
-                              Click to view full snippet
-                            </p>
                           </div>
-                          <div className="flex items-center space-x-1 ml-2">
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                if (
-                                  source.documentId &&
-                                  source.chunkIndex !== undefined
-                                ) {
-                                  setSelectedSnippet({
-                                    documentId: source.documentId,
-                                    chunkIndex: source.chunkIndex,
-                                  });
-                                }
-                              }}
-                              className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
-                              title="View snippet"
-                            >
-                              <DocumentTextIcon className="w-4 h-4" />
-                            </button>
-                            <a
-                              href={`https://drive.google.com/file/d/${source.documentId}`}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              onClick={(e) => e.stopPropagation()}
-                              className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
-                              title="Open in Google Drive"
-                            >
-                              <ArrowTopRightOnSquareIcon className="w-4 h-4" />
-                            </a>
-                          </div>
-                        </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* Message Actions */}
+                  {!message.isLoading &&
+                    !message.isStreaming &&
+                    message.type === "assistant" && (
+                      <div className="flex items-center space-x-2 mt-3">
+                        <button
+                          onClick={() => handleCopyMessage(message.content)}
+                          className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                        >
+                          <ClipboardDocumentIcon className="w-3 h-3" />
+                          <span>Copy</span>
+                        </button>
+                        <button
+                          onClick={handleRetryLastMessage}
+                          className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                        >
+                          <ArrowPathIcon className="w-3 h-3" />
+                          <span>Retry</span>
+                        </button>
                       </div>
-                    ))}
-                  </div>
-                )}
+                    )}
 
-                {/* Message Actions */}
-                {!message.isLoading && message.type === "assistant" && (
-                  <div className="flex items-center space-x-2 mt-3">
-                    <button
-                      onClick={() => handleCopyMessage(message.content)}
-                      className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 transition-colors"
-                    >
-                      <ClipboardDocumentIcon className="w-3 h-3" />
-                      <span>Copy</span>
-                    </button>
-                    <button
-                      onClick={handleRetryLastMessage}
-                      className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 transition-colors"
-                    >
-                      <ArrowPathIcon className="w-3 h-3" />
-                      <span>Retry</span>
-                    </button>
-                  </div>
-                )}
+                  {/* Timestamp */}
+                  {!message.isLoading && !message.isStreaming && (
+                    <div className="text-xs text-gray-500 mt-2">
+                      {formatTimestamp(message.timestamp)}
+                    </div>
+                  )}
+                </div>
 
-                {/* Timestamp */}
-                {!message.isLoading && (
-                  <div className="text-xs text-gray-500 mt-2">
-                    {formatTimestamp(message.timestamp)}
+                {message.type === "user" && (
+                  <div className="flex-shrink-0 w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center order-2">
+                    <UserIcon className="h-4 w-4 text-white" />
                   </div>
                 )}
               </div>
+            ))
+          )}
+          <div ref={messagesEndRef} />
+        </div>
 
-              {message.type === "user" && (
-                <div className="flex-shrink-0 w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center order-2">
-                  <UserIcon className="h-4 w-4 text-white" />
-                </div>
-              )}
-            </div>
-          ))
-        )}
-        <div ref={messagesEndRef} />
-      </div>
-
-      {/* Input Area */}
-      <div className="flex-shrink-0 border-t border-gray-200 p-4">
-        <form onSubmit={handleInputSubmit} className="flex space-x-2">
-          <div className="flex-1 relative">
-            <textarea
-              ref={inputRef}
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              onKeyDown={handleKeyDown}
-              onCompositionStart={() => setIsComposing(true)}
-              onCompositionEnd={() => setIsComposing(false)}
-              placeholder="Ask a question about your documents..."
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-              rows={1}
-              style={{
-                minHeight: "48px",
-                maxHeight: "120px",
-                height: "auto",
-              }}
-            />
+        {/* Input Area */}
+        <div className="flex-shrink-0 border-t border-gray-200 p-4">
+          <div className="flex items-center mb-2 space-x-3 text-xs">
+            {messages.length > 0 && !isDeepResearch && (
+              <div className="inline-flex rounded-md bg-gray-100 p-0.5">
+                <button
+                  type="button"
+                  onClick={() => setConversationMode("continue")}
+                  className={`px-2 py-1 rounded transition-colors ${
+                    conversationMode === "continue"
+                      ? "bg-white text-blue-700 shadow-sm"
+                      : "text-gray-500 hover:text-gray-700"
+                  }`}
+                  title={`Send up to ${maxConversationHistory} previous messages as context`}
+                >
+                  Continue conversation
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setConversationMode("fresh")}
+                  className={`px-2 py-1 rounded transition-colors ${
+                    conversationMode === "fresh"
+                      ? "bg-white text-blue-700 shadow-sm"
+                      : "text-gray-500 hover:text-gray-700"
+                  }`}
+                  title="Ask without previous messages as context"
+                >
+                  Fresh question
+                </button>
+              </div>
+            )}
+            <label
+              className="inline-flex items-center space-x-1 text-gray-600 cursor-pointer"
+              title="Break the question into sub-questions and answer them step by step"
+            >
+              <input
+                type="checkbox"
+                checked={isDeepResearch}
+                onChange={(e) => setIsDeepResearch(e.target.checked)}
+                disabled={ragMutation.isPending}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <BeakerIcon className="w-3.5 h-3.5" />
+              <span>Deep research</span>
+            </label>
+            {isDeepResearch && (
+              <label className="inline-flex items-center space-x-1 text-gray-600">
+                <span>Max steps</span>
+                <select
+                  value={maxResearchSteps}
+                  onChange={(e) => setMaxResearchSteps(Number(e.target.value))}
+                  disabled={ragMutation.isPending}
+                  className="px-1 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {MAX_RESEARCH_STEP_OPTIONS.map((steps) => (
+                    <option key={steps} value={steps}>
+                      {steps}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
           </div>
-          <button
-            type="submit"
-            disabled={!inputValue.trim() || ragMutation.isPending}
-            className="px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
+          <form onSubmit={handleInputSubmit} className="flex space-x-2">
+            <div className="flex-1 relative">
+              <textarea
+                ref={inputRef}
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onCompositionStart={() => setIsComposing(true)}
+                onCompositionEnd={() => setIsComposing(false)}
+                placeholder="Ask a question about your documents..."
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                rows={1}
+                style={{
+                  minHeight: "48px",
+                  maxHeight: "120px",
+                  height: "auto",
+                }}
+              />
+            </div>
             {ragMutation.isPending ? (
-              <div className="w-5 h-5 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+              <button
+                type="button"
+                onClick={handleStop}
+                className="px-4 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors"
+                title="Stop generating"
+              >
+                <StopIcon className="w-5 h-5" />
+              </button>
             ) : (
-              <PaperAirplaneIcon className="w-5 h-5" />
+              <button
+                type="submit"
+                disabled={!inputValue.trim()}
+                className="px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <PaperAirplaneIcon className="w-5 h-5" />
+              </button>
             )}
-          </button>
-        </form>
+          </form>
+        </div>
       </div>
 
       {/* Snippet View Modal */}
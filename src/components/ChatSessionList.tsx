@@ -0,0 +1,245 @@
+import React, { useState } from "react";
+import {
+  PlusIcon,
+  MagnifyingGlassIcon,
+  PencilIcon,
+  TrashIcon,
+  CheckIcon,
+  XMarkIcon,
+  FolderIcon,
+  DocumentTextIcon,
+} from "@heroicons/react/24/outline";
+import type { ChatSession } from "../types/chat";
+import ConfirmDialog from "./ConfirmDialog";
+
+interface ChatSessionListProps {
+  sessions: ChatSession[];
+  activeSessionId?: string | null;
+  isLoading?: boolean;
+  onSelect: (session: ChatSession) => void;
+  onCreate: () => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionId: string) => void;
+  className?: string;
+}
+
+const matchesSearch = (session: ChatSession, query: string): boolean => {
+  if (session.title.toLowerCase().includes(query)) return true;
+  return session.messages.some((msg) =>
+    msg.content.toLowerCase().includes(query)
+  );
+};
+
+const formatUpdatedAt = (date: Date): string => {
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const ChatSessionList: React.FC<ChatSessionListProps> = ({
+  sessions,
+  activeSessionId,
+  isLoading = false,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  className,
+}) => {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [pendingDeletion, setPendingDeletion] = useState<ChatSession | null>(
+    null
+  );
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredSessions = query
+    ? sessions.filter((session) => matchesSearch(session, query))
+    : sessions;
+
+  const startEditing = (e: React.MouseEvent, session: ChatSession) => {
+    e.stopPropagation();
+    setEditingSessionId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const cancelEditing = () => {
+    setEditingSessionId(null);
+    setEditingTitle("");
+  };
+
+  const commitEditing = () => {
+    if (editingSessionId && editingTitle.trim()) {
+      onRename(editingSessionId, editingTitle.trim());
+    }
+    cancelEditing();
+  };
+
+  const handleDelete = (e: React.MouseEvent, session: ChatSession) => {
+    e.stopPropagation();
+    setPendingDeletion(session);
+  };
+
+  const handleConfirmDeletion = () => {
+    if (pendingDeletion) onDelete(pendingDeletion.id);
+    setPendingDeletion(null);
+  };
+
+  return (
+    <div
+      className={`flex flex-col h-full bg-gray-50 border-r border-gray-200 ${className || ""}`}
+    >
+      <div className="flex-shrink-0 p-3 space-y-2 border-b border-gray-200">
+        <button
+          onClick={onCreate}
+          className="w-full flex items-center justify-center space-x-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          <PlusIcon className="w-4 h-4" />
+          <span>New chat</span>
+        </button>
+        <div className="relative">
+          <MagnifyingGlassIcon className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search conversations..."
+            className="w-full pl-9 pr-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {isLoading ? (
+          <div className="animate-pulse space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded" />
+            ))}
+          </div>
+        ) : filteredSessions.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm mt-6">
+            {query ? "No matching conversations." : "No saved conversations."}
+          </div>
+        ) : (
+          filteredSessions.map((session) => {
+            const isActive = session.id === activeSessionId;
+            const isEditing = session.id === editingSessionId;
+
+            return (
+              <div
+                key={session.id}
+                onClick={() => !isEditing && onSelect(session)}
+                className={`group px-2 py-2 rounded-md cursor-pointer transition-colors ${
+                  isActive
+                    ? "bg-blue-50 text-blue-700"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                {isEditing ? (
+                  <div className="flex items-center space-x-1">
+                    <input
+                      autoFocus
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitEditing();
+                        if (e.key === "Escape") cancelEditing();
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        commitEditing();
+                      }}
+                      className="p-1 text-gray-400 hover:text-green-600"
+                      title="Save"
+                    >
+                      <CheckIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        cancelEditing();
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Cancel"
+                    >
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-start">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {session.title}
+                      </div>
+                      <div className="flex items-center mt-0.5 space-x-2 text-xs text-gray-500">
+                        <span>{formatUpdatedAt(session.updatedAt)}</span>
+                        {session.folderId && (
+                          <FolderIcon
+                            className="w-3 h-3"
+                            title="Scoped to a folder"
+                          />
+                        )}
+                        {session.documentId && (
+                          <DocumentTextIcon
+                            className="w-3 h-3"
+                            title="Scoped to a document"
+                          />
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center ml-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={(e) => startEditing(e, session)}
+                        className="p-1 text-gray-400 hover:text-gray-600"
+                        title="Rename"
+                      >
+                        <PencilIcon className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => handleDelete(e, session)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <TrashIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!pendingDeletion}
+        title="Delete conversation?"
+        description={
+          <>
+            <span className="font-medium">{pendingDeletion?.title}</span> and
+            its messages will be deleted.
+          </>
+        }
+        confirmLabel="Delete"
+        isDestructive
+        onConfirm={handleConfirmDeletion}
+        onCancel={() => setPendingDeletion(null)}
+      />
+    </div>
+  );
+};
+
+export default ChatSessionList;
@@ -0,0 +1,458 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import {
+  Bookmark,
+  FileText,
+  Folder,
+  FolderPlus,
+  MessageSquare,
+  MessageSquareX,
+  Search,
+  Sparkles,
+  TrendingUp,
+  type LucideIcon,
+} from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "./ui/dialog";
+import { fetchAllFolderDocuments } from "../hooks/useApi";
+import { useChatSessions } from "../hooks/useChatSessions";
+import { useSavedSearches } from "../hooks/useSearchHistory";
+import { indexingQueue } from "../services/indexingQueue";
+import { fuzzyMatch } from "../lib/fuzzyMatch";
+import { getDocumentName, getListedDocuments } from "../lib/documents";
+import { describeStoredSearch } from "../lib/searchFilters";
+import { cn } from "../lib/utils";
+import type {
+  DocumentListRequest,
+  DocumentListResponse,
+  FoldersResponse,
+} from "../types/api";
+import type { ChatSession } from "../types/chat";
+import type { StoredSearch } from "../types/search";
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedFolderId?: string;
+  // Document open in the preview, or the one search is scoped to
+  currentDocumentId?: string;
+  hasConversation: boolean;
+  onFolderSelect: (folderId: string) => void;
+  onDocumentSelect: (documentId: string) => void;
+  onChatSessionSelect: (session: ChatSession) => void;
+  onRunSearch: (search: StoredSearch) => void;
+  onSummarizeDocument: (documentId: string) => void;
+  onClearConversation: () => void;
+  onOpenStats: () => void;
+}
+
+interface PaletteItem {
+  id: string;
+  label: string;
+  description?: string;
+  icon: LucideIcon;
+  run: () => void;
+}
+
+interface PaletteMatch {
+  item: PaletteItem;
+  indices: number[];
+}
+
+interface PaletteGroup {
+  title: string;
+  matches: PaletteMatch[];
+}
+
+// Items listed per group; typing narrows each group to its best matches
+const MAX_ITEMS_PER_GROUP = 6;
+
+// Folders and documents the sidebar tree has already fetched
+const getLoadedTree = (queryClient: QueryClient) => {
+  const folderNames = new Map<string, string>();
+  queryClient
+    .getQueriesData<FoldersResponse>({ queryKey: ["folders"] })
+    .forEach(([, data]) =>
+      data?.data?.folders?.forEach((folder) =>
+        folderNames.set(folder.id, folder.name)
+      )
+    );
+
+  const documents = new Map<string, { name: string; folderName?: string }>();
+  queryClient
+    .getQueriesData<DocumentListResponse>({ queryKey: ["documents"] })
+    .forEach(([queryKey, data]) => {
+      if (!data) return;
+      const request = queryKey[1] as DocumentListRequest | undefined;
+      getListedDocuments(data).forEach((document) =>
+        documents.set(document.id, {
+          name: getDocumentName(document),
+          folderName: request?.folderId
+            ? folderNames.get(request.folderId)
+            : undefined,
+        })
+      );
+    });
+
+  return { folderNames, documents };
+};
+
+const rankItems = (
+  items: PaletteItem[],
+  query: string,
+  limit: number
+): PaletteMatch[] => {
+  if (!query.trim()) {
+    return items.slice(0, limit).map((item) => ({ item, indices: [] }));
+  }
+  return items
+    .flatMap((item) => {
+      const match = fuzzyMatch(query, item.label);
+      return match ? [{ item, ...match }] : [];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ item, indices }) => ({ item, indices }));
+};
+
+// Bolds the characters the query matched
+const MatchedLabel: React.FC<{ text: string; indices: number[] }> = ({
+  text,
+  indices,
+}) => {
+  if (indices.length === 0) return <>{text}</>;
+
+  const matched = new Set(indices);
+  const runs: Array<{ text: string; isMatch: boolean }> = [];
+  for (let i = 0; i < text.length; i++) {
+    const isMatch = matched.has(i);
+    const last = runs[runs.length - 1];
+    if (last && last.isMatch === isMatch) {
+      last.text += text[i];
+    } else {
+      runs.push({ text: text[i], isMatch });
+    }
+  }
+
+  return (
+    <>
+      {runs.map((run, index) =>
+        run.isMatch ? (
+          <span key={index} className="font-semibold text-blue-700">
+            {run.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{run.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+// Mounted only while the palette is open, so every opening starts afresh
+// from what has been loaded so far
+const CommandPaletteSearch: React.FC<{
+  actions: PaletteItem[];
+  onFolderSelect: (folderId: string) => void;
+  onDocumentSelect: (documentId: string) => void;
+  onChatSessionSelect: (session: ChatSession) => void;
+  onRunSearch: (search: StoredSearch) => void;
+  onSelect: (item: PaletteItem) => void;
+}> = ({
+  actions,
+  onFolderSelect,
+  onDocumentSelect,
+  onChatSessionSelect,
+  onRunSearch,
+  onSelect,
+}) => {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const listboxId = useId();
+
+  const queryClient = useQueryClient();
+  const [loadedTree] = useState(() => getLoadedTree(queryClient));
+  const { data: chatSessions = [] } = useChatSessions();
+  const { data: savedSearches = [] } = useSavedSearches();
+
+  const groups = useMemo<PaletteGroup[]>(() => {
+    const folderItems: PaletteItem[] = [...loadedTree.folderNames].map(
+      ([id, name]) => ({
+        id: `folder:${id}`,
+        label: name,
+        icon: Folder,
+        run: () => onFolderSelect(id),
+      })
+    );
+    const documentItems: PaletteItem[] = [...loadedTree.documents].map(
+      ([id, document]) => ({
+        id: `document:${id}`,
+        label: document.name,
+        description: document.folderName,
+        icon: FileText,
+        run: () => onDocumentSelect(id),
+      })
+    );
+    const chatItems: PaletteItem[] = chatSessions.map((session) => ({
+      id: `chat:${session.id}`,
+      label: session.title,
+      description: session.updatedAt.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+      }),
+      icon: MessageSquare,
+      run: () => onChatSessionSelect(session),
+    }));
+    const savedSearchItems: PaletteItem[] = savedSearches.map(
+      (savedSearch) => ({
+        id: `savedSearch:${savedSearch.id}`,
+        label: savedSearch.name,
+        description:
+          describeStoredSearch(savedSearch.search) || savedSearch.search.q,
+        icon: Bookmark,
+        run: () => onRunSearch(savedSearch.search),
+      })
+    );
+
+    // Folders and documents only show up once something is typed
+    const hasQuery = !!query.trim();
+    return [
+      { title: "Actions", matches: rankItems(actions, query, actions.length) },
+      {
+        title: "Folders",
+        matches: hasQuery
+          ? rankItems(folderItems, query, MAX_ITEMS_PER_GROUP)
+          : [],
+      },
+      {
+        title: "Documents",
+        matches: hasQuery
+          ? rankItems(documentItems, query, MAX_ITEMS_PER_GROUP)
+          : [],
+      },
+      {
+        title: "Recent chats",
+        matches: rankItems(chatItems, query, MAX_ITEMS_PER_GROUP),
+      },
+      {
+        title: "Saved searches",
+        matches: rankItems(savedSearchItems, query, MAX_ITEMS_PER_GROUP),
+      },
+    ].filter((group) => group.matches.length > 0);
+  }, [
+    query,
+    actions,
+    loadedTree,
+    chatSessions,
+    savedSearches,
+    onFolderSelect,
+    onDocumentSelect,
+    onChatSessionSelect,
+    onRunSearch,
+  ]);
+
+  const options = useMemo(
+    () => groups.flatMap((group) => group.matches.map(({ item }) => item)),
+    [groups]
+  );
+  const activeOption = options[Math.min(activeIndex, options.length - 1)];
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeOption]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (options.length === 0) return;
+    const currentIndex = Math.min(activeIndex, options.length - 1);
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((currentIndex + 1) % options.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((currentIndex - 1 + options.length) % options.length);
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (activeOption) onSelect(activeOption);
+        break;
+    }
+  };
+
+  const getOptionId = (item: PaletteItem) => `${listboxId}-${item.id}`;
+
+  return (
+    <>
+      <div className="flex items-center border-b border-gray-200 px-4 pr-12">
+        <Search className="w-4 h-4 mr-3 flex-shrink-0 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search folders, documents, chats and actions..."
+          className="flex-1 py-4 text-sm bg-transparent focus:outline-none"
+          role="combobox"
+          aria-expanded={options.length > 0}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={
+            activeOption ? getOptionId(activeOption) : undefined
+          }
+          aria-label="Command palette"
+          autoFocus
+        />
+      </div>
+      <div
+        ref={listRef}
+        id={listboxId}
+        role="listbox"
+        className="max-h-96 overflow-y-auto py-2"
+      >
+        {groups.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">
+            Nothing matches "{query}"
+          </p>
+        ) : (
+          groups.map((group) => (
+            <div key={group.title} role="group" aria-label={group.title}>
+              <div
+                role="presentation"
+                className="px-4 pt-2 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wide"
+              >
+                {group.title}
+              </div>
+              {group.matches.map(({ item, indices }) => {
+                const isActive = item === activeOption;
+                const Icon = item.icon;
+                return (
+                  <div
+                    key={item.id}
+                    id={getOptionId(item)}
+                    role="option"
+                    aria-selected={isActive}
+                    onClick={() => onSelect(item)}
+                    onMouseMove={() => {
+                      if (!isActive) setActiveIndex(options.indexOf(item));
+                    }}
+                    className={cn(
+                      "flex items-center px-4 py-2 text-sm cursor-pointer",
+                      isActive ? "bg-blue-50 text-blue-900" : "text-gray-700"
+                    )}
+                  >
+                    <Icon className="w-4 h-4 mr-3 flex-shrink-0 text-gray-400" />
+                    <span className="truncate">
+                      <MatchedLabel text={item.label} indices={indices} />
+                    </span>
+                    {item.description && (
+                      <span className="ml-auto pl-3 text-xs text-gray-400 truncate">
+                        {item.description}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  );
+};
+
+// Ctrl/Cmd+K palette over the sidebar tree, chats, saved searches and
+// app-wide actions
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  isOpen,
+  onClose,
+  selectedFolderId,
+  currentDocumentId,
+  hasConversation,
+  onFolderSelect,
+  onDocumentSelect,
+  onChatSessionSelect,
+  onRunSearch,
+  onSummarizeDocument,
+  onClearConversation,
+  onOpenStats,
+}) => {
+  const queryClient = useQueryClient();
+
+  // Actions that don't apply right now are left out rather than disabled
+  const actions: PaletteItem[] = [];
+
+  if (selectedFolderId) {
+    actions.push({
+      id: "action:indexFolder",
+      label: "Index selected folder",
+      description: "Every document in the folder",
+      icon: FolderPlus,
+      run: () => {
+        indexingQueue.enqueue({
+          documentIds: [],
+          listDocumentIds: async () =>
+            (await fetchAllFolderDocuments(queryClient, selectedFolderId)).map(
+              (document) => document.id
+            ),
+          label:
+            getLoadedTree(queryClient).folderNames.get(selectedFolderId) ||
+            "Selected folder",
+        });
+      },
+    });
+  }
+  if (currentDocumentId) {
+    actions.push({
+      id: "action:summarize",
+      label: "Summarize current document",
+      icon: Sparkles,
+      run: () => onSummarizeDocument(currentDocumentId),
+    });
+  }
+  if (hasConversation) {
+    actions.push({
+      id: "action:clearConversation",
+      label: "Clear conversation",
+      description: "Start a new chat",
+      icon: MessageSquareX,
+      run: onClearConversation,
+    });
+  }
+  actions.push({
+    id: "action:openStats",
+    label: "Open stats",
+    description: "Index and search statistics",
+    icon: TrendingUp,
+    run: onOpenStats,
+  });
+
+  const handleSelect = (item: PaletteItem) => {
+    onClose();
+    item.run();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl gap-0 p-0 overflow-hidden bg-white">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <CommandPaletteSearch
+          actions={actions}
+          onFolderSelect={onFolderSelect}
+          onDocumentSelect={onDocumentSelect}
+          onChatSessionSelect={onChatSessionSelect}
+          onRunSearch={onRunSearch}
+          onSelect={handleSelect}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,530 @@
+import React, { useState } from "react";
+import {
+  ScaleIcon,
+  XMarkIcon,
+  DocumentTextIcon,
+  TrashIcon,
+  ChatBubbleLeftRightIcon,
+} from "@heroicons/react/24/outline";
+import { useCompareDocuments } from "../hooks/useApi";
+import {
+  useSavedComparisons,
+  useSaveComparison,
+  useDeleteComparison,
+} from "../hooks/useComparisons";
+import type { RAGSource } from "../types/api";
+import {
+  MIN_COMPARISON_DOCUMENTS,
+  MAX_COMPARISON_DOCUMENTS,
+  type ComparisonDocument,
+  type SavedComparison,
+} from "../types/comparison";
+import ConfirmDialog from "./ConfirmDialog";
+import MarkdownMessage from "./MarkdownMessage";
+import SnippetView from "./SnippetView";
+
+interface ComparisonWorkspaceProps {
+  initialDocuments: ComparisonDocument[];
+  onClose: () => void;
+  className?: string;
+}
+
+const titleFromDocuments = (documents: ComparisonDocument[]): string =>
+  documents.map((doc) => doc.name || "Untitled Document").join(" vs ");
+
+const formatCreatedAt = (date: Date): string =>
+  date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Splits comma-separated input into trimmed focus areas
+const parseFocusAreas = (value: string): string[] =>
+  value
+    .split(",")
+    .map((area) => area.trim())
+    .filter(Boolean);
+
+const ComparisonWorkspace: React.FC<ComparisonWorkspaceProps> = ({
+  initialDocuments,
+  onClose,
+  className,
+}) => {
+  const [documents, setDocuments] =
+    useState<ComparisonDocument[]>(initialDocuments);
+  const [focusAreas, setFocusAreas] = useState<string[]>([]);
+  const [focusAreaInput, setFocusAreaInput] = useState("");
+  const [comparisonAspect, setComparisonAspect] = useState("");
+  const [activeComparison, setActiveComparison] =
+    useState<SavedComparison | null>(null);
+  const [selectedSnippet, setSelectedSnippet] = useState<{
+    documentId: string;
+    chunkIndex: number;
+  } | null>(null);
+  const [pendingDeletion, setPendingDeletion] =
+    useState<SavedComparison | null>(null);
+
+  const { data: savedComparisons = [], isLoading: isSavedLoading } =
+    useSavedComparisons();
+  const { mutate: saveComparison } = useSaveComparison();
+  const deleteComparisonMutation = useDeleteComparison();
+
+  const compareMutation = useCompareDocuments({
+    onSuccess: (data, variables) => {
+      const comparedDocuments = variables.documentIds.map(
+        (id) => documents.find((doc) => doc.id === id) || { id, name: "" }
+      );
+      const comparison: SavedComparison = {
+        id: `comparison-${Date.now()}`,
+        title: titleFromDocuments(comparedDocuments),
+        documents: comparedDocuments,
+        focusAreas: variables.focusAreas || [],
+        comparisonAspect: variables.comparisonAspect,
+        answer: data.data.answer,
+        sources: data.data.sources || [],
+        createdAt: new Date(),
+      };
+      setActiveComparison(comparison);
+      saveComparison(comparison);
+    },
+  });
+
+  const canCompare =
+    documents.length >= MIN_COMPARISON_DOCUMENTS &&
+    documents.length <= MAX_COMPARISON_DOCUMENTS &&
+    !compareMutation.isPending;
+
+  const addFocusAreas = (value: string) => {
+    const areas = parseFocusAreas(value).filter(
+      (area) => !focusAreas.includes(area)
+    );
+    if (areas.length > 0) {
+      setFocusAreas((prev) => [...prev, ...areas]);
+    }
+    setFocusAreaInput("");
+  };
+
+  const handleFocusAreaKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addFocusAreas(focusAreaInput);
+    } else if (
+      e.key === "Backspace" &&
+      !focusAreaInput &&
+      focusAreas.length > 0
+    ) {
+      setFocusAreas((prev) => prev.slice(0, -1));
+    }
+  };
+
+  const handleCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canCompare) return;
+
+    // Include whatever is still typed in the focus area field
+    const areas = [
+      ...focusAreas,
+      ...parseFocusAreas(focusAreaInput).filter(
+        (area) => !focusAreas.includes(area)
+      ),
+    ];
+    setFocusAreas(areas);
+    setFocusAreaInput("");
+
+    compareMutation.mutate({
+      documentIds: documents.map((doc) => doc.id),
+      focusAreas: areas.length > 0 ? areas : undefined,
+      comparisonAspect: comparisonAspect.trim() || undefined,
+    });
+  };
+
+  const handleOpenSaved = (comparison: SavedComparison) => {
+    compareMutation.reset();
+    setActiveComparison(comparison);
+    setDocuments(comparison.documents);
+    setFocusAreas(comparison.focusAreas);
+    setComparisonAspect(comparison.comparisonAspect || "");
+  };
+
+  const handleDeleteSaved = (
+    e: React.MouseEvent,
+    comparison: SavedComparison
+  ) => {
+    e.stopPropagation();
+    setPendingDeletion(comparison);
+  };
+
+  const handleConfirmDeletion = () => {
+    if (!pendingDeletion) return;
+    deleteComparisonMutation.mutate(pendingDeletion.id);
+    if (activeComparison?.id === pendingDeletion.id) {
+      setActiveComparison(null);
+    }
+    setPendingDeletion(null);
+  };
+
+  const openSource = (source: RAGSource) => {
+    if (source.documentId && source.chunkIndex !== undefined) {
+      setSelectedSnippet({
+        documentId: source.documentId,
+        chunkIndex: source.chunkIndex,
+      });
+    }
+  };
+
+  // Snippets for the side-by-side table, one column per compared document
+  const snippetColumns = activeComparison
+    ? activeComparison.documents.map((doc) => ({
+        document: doc,
+        sources: activeComparison.sources.filter(
+          (source) => source.documentId === doc.id
+        ),
+      }))
+    : [];
+  const snippetRowCount = Math.max(
+    0,
+    ...snippetColumns.map((column) => column.sources.length)
+  );
+
+  return (
+    <div className={`flex h-full bg-white ${className || ""}`}>
+      {/* Saved Comparisons */}
+      <div className="w-64 flex-shrink-0 flex flex-col bg-gray-50 border-r border-gray-200">
+        <div className="flex-shrink-0 px-3 py-3 border-b border-gray-200 text-sm font-medium text-gray-700">
+          Saved comparisons
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {isSavedLoading ? (
+            <div className="animate-pulse space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded" />
+              ))}
+            </div>
+          ) : savedComparisons.length === 0 ? (
+            <div className="text-center text-gray-500 text-sm mt-6">
+              No saved comparisons.
+            </div>
+          ) : (
+            savedComparisons.map((comparison) => (
+              <div
+                key={comparison.id}
+                onClick={() => handleOpenSaved(comparison)}
+                className={`group flex items-start px-2 py-2 rounded-md cursor-pointer transition-colors ${
+                  activeComparison?.id === comparison.id
+                    ? "bg-blue-50 text-blue-700"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {comparison.title}
+                  </div>
+                  <div className="mt-0.5 text-xs text-gray-500">
+                    {comparison.documents.length} documents ·{" "}
+                    {formatCreatedAt(comparison.createdAt)}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => handleDeleteSaved(e, comparison)}
+                  className="p-1 ml-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete"
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <div className="flex-shrink-0 border-b border-gray-200 p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="flex items-center justify-center w-8 h-8 bg-blue-100 rounded-full">
+                <ScaleIcon className="w-5 h-5 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Compare Documents
+                </h2>
+                <p className="text-sm text-gray-500">
+                  Select {MIN_COMPARISON_DOCUMENTS}–{MAX_COMPARISON_DOCUMENTS}{" "}
+                  documents from the sidebar
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              <ChatBubbleLeftRightIcon className="w-4 h-4" />
+              <span>Back to Chat</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Setup */}
+          <form
+            onSubmit={handleCompare}
+            className="space-y-3 p-4 border border-gray-200 rounded-lg"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Documents
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {documents.map((doc) => (
+                  <span
+                    key={doc.id}
+                    className="inline-flex items-center max-w-xs px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full"
+                  >
+                    <DocumentTextIcon className="w-3.5 h-3.5 mr-1 flex-shrink-0 text-gray-400" />
+                    <span className="truncate">
+                      {doc.name || "Untitled Document"}
+                    </span>
+                    <button
+                      type="button"
+                      disabled={compareMutation.isPending}
+                      onClick={() =>
+                        setDocuments((prev) =>
+                          prev.filter((d) => d.id !== doc.id)
+                        )
+                      }
+                      className="ml-1 text-gray-400 hover:text-gray-600"
+                      title="Remove from comparison"
+                    >
+                      <XMarkIcon className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                {documents.length === 0 && (
+                  <span className="text-sm text-gray-500">
+                    No documents selected.
+                  </span>
+                )}
+              </div>
+              {documents.length > 0 &&
+                documents.length < MIN_COMPARISON_DOCUMENTS && (
+                  <p className="mt-1 text-xs text-amber-600">
+                    Select at least {MIN_COMPARISON_DOCUMENTS} documents.
+                  </p>
+                )}
+              {documents.length > MAX_COMPARISON_DOCUMENTS && (
+                <p className="mt-1 text-xs text-amber-600">
+                  At most {MAX_COMPARISON_DOCUMENTS} documents can be compared
+                  at once.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Focus areas
+              </label>
+              <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+                {focusAreas.map((area) => (
+                  <span
+                    key={area}
+                    className="inline-flex items-center px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded-full"
+                  >
+                    {area}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFocusAreas((prev) => prev.filter((a) => a !== area))
+                      }
+                      className="ml-1 text-blue-400 hover:text-blue-600"
+                      title="Remove focus area"
+                    >
+                      <XMarkIcon className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="text"
+                  value={focusAreaInput}
+                  onChange={(e) => setFocusAreaInput(e.target.value)}
+                  onKeyDown={handleFocusAreaKeyDown}
+                  onBlur={() => addFocusAreas(focusAreaInput)}
+                  placeholder={
+                    focusAreas.length === 0
+                      ? "e.g. pricing, termination, data retention"
+                      : ""
+                  }
+                  className="flex-1 min-w-[8rem] py-0.5 text-sm focus:outline-none"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Comparison aspect{" "}
+                <span className="font-normal text-gray-400">(optional)</span>
+              </label>
+              <input
+                type="text"
+                value={comparisonAspect}
+                onChange={(e) => setComparisonAspect(e.target.value)}
+                placeholder="e.g. differences in obligations"
+                className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={!canCompare}
+                className="flex items-center space-x-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                {compareMutation.isPending ? (
+                  <>
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                    <span>Comparing...</span>
+                  </>
+                ) : (
+                  <>
+                    <ScaleIcon className="w-4 h-4" />
+                    <span>Compare</span>
+                  </>
+                )}
+              </button>
+            </div>
+          </form>
+
+          {compareMutation.error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="text-red-600 text-sm">
+                <strong>Error:</strong> {compareMutation.error.message}
+              </div>
+            </div>
+          )}
+
+          {/* Result */}
+          {activeComparison && (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+              <div className="p-4 border border-gray-200 rounded-lg">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  Comparison
+                </h3>
+                {activeComparison.focusAreas.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {activeComparison.focusAreas.map((area) => (
+                      <span
+                        key={area}
+                        className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded-full"
+                      >
+                        {area}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <MarkdownMessage
+                  content={activeComparison.answer}
+                  sources={activeComparison.sources}
+                  onCitationClick={openSource}
+                />
+              </div>
+
+              <div className="p-4 border border-gray-200 rounded-lg min-w-0">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  Relevant snippets
+                </h3>
+                {snippetRowCount === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No snippets were returned for these documents.
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs table-fixed">
+                      <thead>
+                        <tr>
+                          {snippetColumns.map(({ document }) => (
+                            <th
+                              key={document.id}
+                              className="w-48 px-2 py-2 text-left font-medium text-gray-900 border-b border-gray-200"
+                            >
+                              <span className="block truncate">
+                                {document.name || "Untitled Document"}
+                              </span>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[...Array(snippetRowCount)].map((_, row) => (
+                          <tr key={row} className="align-top">
+                            {snippetColumns.map(({ document, sources }) => {
+                              const source = sources[row];
+                              return (
+                                <td
+                                  key={document.id}
+                                  className="px-2 py-2 border-b border-gray-100"
+                                >
+                                  {source && (
+                                    <button
+                                      type="button"
+                                      onClick={() => openSource(source)}
+                                      className="block w-full p-2 text-left rounded hover:bg-gray-50 transition-colors"
+                                      title="View full snippet"
+                                    >
+                                      <span className="block text-gray-700 line-clamp-6">
+                                        {source.snippet}
+                                      </span>
+                                      <span className="block mt-1 text-gray-400">
+                                        Relevance:{" "}
+                                        {Math.round(
+                                          source.relevanceScore * 100
+                                        )}
+                                        %
+                                      </span>
+                                    </button>
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Snippet View Modal */}
+      {selectedSnippet && (
+        <SnippetView
+          documentId={selectedSnippet.documentId}
+          chunkIndex={selectedSnippet.chunkIndex}
+          isOpen={!!selectedSnippet}
+          onClose={() => setSelectedSnippet(null)}
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={!!pendingDeletion}
+        title="Delete comparison?"
+        description={
+          <>
+            <span className="font-medium">{pendingDeletion?.title}</span> will
+            be removed from your saved comparisons.
+          </>
+        }
+        confirmLabel="Delete"
+        isDestructive
+        onConfirm={handleConfirmDeletion}
+        onCancel={() => setPendingDeletion(null)}
+      />
+    </div>
+  );
+};
+
+export default ComparisonWorkspace;
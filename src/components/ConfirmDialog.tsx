@@ -0,0 +1,66 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+interface ConfirmDialogProps {
+  isOpen: boolean;
+  title: string;
+  description: React.ReactNode;
+  confirmLabel: string;
+  // Styles the confirm button for actions that can't be undone
+  isDestructive?: boolean;
+  isPending?: boolean;
+  // Shown above the buttons, e.g. when the action failed
+  error?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  isOpen,
+  title,
+  description,
+  confirmLabel,
+  isDestructive,
+  isPending,
+  error,
+  onConfirm,
+  onCancel,
+}) => (
+  <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+    <DialogContent className="max-w-md bg-white">
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>{description}</DialogDescription>
+      </DialogHeader>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <DialogFooter>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isPending}
+          className={`px-3 py-1.5 text-sm text-white rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed ${
+            isDestructive
+              ? "bg-red-600 hover:bg-red-700"
+              : "bg-blue-600 hover:bg-blue-700"
+          }`}
+        >
+          {isPending ? "Working..." : confirmLabel}
+        </button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ConfirmDialog;
@@ -0,0 +1,103 @@
+import React from "react";
+import {
+  ArrowPathIcon,
+  ArrowTopRightOnSquareIcon,
+  ChatBubbleLeftRightIcon,
+  EllipsisVerticalIcon,
+  EyeIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { getDocumentName } from "../lib/documents";
+import type { DocumentDetails } from "../types/api";
+
+interface DocumentActionsMenuProps {
+  document: DocumentDetails;
+  // Controlled so a right-click on the row can open it too
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  onReindex: () => void;
+  // Left out for documents that aren't in the index
+  onRemoveFromIndex?: () => void;
+  onPreview?: () => void;
+  onAsk?: () => void;
+  className?: string;
+}
+
+const itemClassName = "bg-white cursor-pointer text-gray-700 focus:bg-gray-100";
+const iconClassName = "h-4 w-4 mr-2 text-gray-400";
+
+// Per-document actions in the sidebar tree
+const DocumentActionsMenu: React.FC<DocumentActionsMenuProps> = ({
+  document,
+  isOpen,
+  onOpenChange,
+  onReindex,
+  onRemoveFromIndex,
+  onPreview,
+  onAsk,
+  className,
+}) => (
+  <DropdownMenu open={isOpen} onOpenChange={onOpenChange}>
+    <DropdownMenuTrigger asChild>
+      <button
+        onClick={(e) => e.stopPropagation()}
+        className={`p-0.5 rounded text-gray-400 hover:text-gray-600 ${className || ""}`}
+        aria-label={`Actions for ${getDocumentName(document)}`}
+      >
+        <EllipsisVerticalIcon className="h-4 w-4" />
+      </button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent
+      align="end"
+      className="w-52 bg-white"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {onPreview && (
+        <DropdownMenuItem className={itemClassName} onSelect={onPreview}>
+          <EyeIcon className={iconClassName} />
+          Preview
+        </DropdownMenuItem>
+      )}
+      {document.driveUrl && (
+        <DropdownMenuItem
+          className={itemClassName}
+          onSelect={() =>
+            window.open(document.driveUrl, "_blank", "noopener,noreferrer")
+          }
+        >
+          <ArrowTopRightOnSquareIcon className={iconClassName} />
+          Open in Drive
+        </DropdownMenuItem>
+      )}
+      {onAsk && (
+        <DropdownMenuItem className={itemClassName} onSelect={onAsk}>
+          <ChatBubbleLeftRightIcon className={iconClassName} />
+          Ask about this document
+        </DropdownMenuItem>
+      )}
+      <DropdownMenuSeparator className="bg-gray-100" />
+      <DropdownMenuItem className={itemClassName} onSelect={onReindex}>
+        <ArrowPathIcon className={iconClassName} />
+        Re-index
+      </DropdownMenuItem>
+      {onRemoveFromIndex && (
+        <DropdownMenuItem
+          className="bg-white cursor-pointer text-red-600 focus:bg-red-50 focus:text-red-700"
+          onSelect={onRemoveFromIndex}
+        >
+          <TrashIcon className="h-4 w-4 mr-2" />
+          Remove from index
+        </DropdownMenuItem>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default DocumentActionsMenu;
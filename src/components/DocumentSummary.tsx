@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { RefreshCw, Copy, Check, Download } from "lucide-react";
+import { useDocumentSummary, useSummarizeDocument } from "../hooks/useApi";
+import type { SummaryType } from "../types/api";
+import { cn } from "../lib/utils";
+import { ErrorDisplay } from "./ErrorBoundary";
+import MarkdownMessage from "./MarkdownMessage";
+
+interface DocumentSummaryProps {
+  documentId: string;
+  documentTitle: string;
+  className?: string;
+}
+
+const SUMMARY_TYPES: Array<{ type: SummaryType; label: string }> = [
+  { type: "brief", label: "Brief" },
+  { type: "detailed", label: "Detailed" },
+  { type: "bullet-points", label: "Bullet points" },
+];
+
+const toFileName = (title: string, summaryType: SummaryType): string => {
+  const base =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "document";
+  return `${base}-${summaryType}-summary.md`;
+};
+
+const DocumentSummary: React.FC<DocumentSummaryProps> = ({
+  documentId,
+  documentTitle,
+  className,
+}) => {
+  const [summaryType, setSummaryType] = useState<SummaryType>("brief");
+  const [copied, setCopied] = useState(false);
+
+  const { data, error, isLoading, isFetching, refetch } = useDocumentSummary(
+    documentId,
+    summaryType
+  );
+  const regenerateMutation = useSummarizeDocument();
+  const isGenerating = isFetching || regenerateMutation.isPending;
+  const generateError = error || regenerateMutation.error;
+
+  const summary = data?.response.data?.answer || "";
+  const typeLabel =
+    SUMMARY_TYPES.find((option) => option.type === summaryType)?.label ||
+    summaryType;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy summary:", error);
+    }
+  };
+
+  const handleExport = () => {
+    const markdown = `# ${documentTitle}\n\n_${typeLabel} summary_\n\n${summary}\n`;
+    const url = URL.createObjectURL(
+      new Blob([markdown], { type: "text/markdown;charset=utf-8" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = toFileName(documentTitle, summaryType);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={cn("p-6", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="inline-flex rounded-md bg-gray-100 p-0.5">
+          {SUMMARY_TYPES.map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => {
+                regenerateMutation.reset();
+                setSummaryType(type);
+              }}
+              className={cn(
+                "px-3 py-1 text-sm rounded transition-colors",
+                summaryType === type
+                  ? "bg-white text-blue-700 shadow-sm"
+                  : "text-gray-500 hover:text-gray-700"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() =>
+              regenerateMutation.mutate({ documentId, summaryType })
+            }
+            disabled={isGenerating}
+            className="flex items-center px-2 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Generate a new summary"
+          >
+            <RefreshCw
+              className={cn("h-4 w-4 mr-1", isGenerating && "animate-spin")}
+            />
+            Regenerate
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={!summary}
+            className="flex items-center px-2 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Copy summary"
+          >
+            {copied ? (
+              <Check className="h-4 w-4 mr-1 text-green-600" />
+            ) : (
+              <Copy className="h-4 w-4 mr-1" />
+            )}
+            {copied ? "Copied" : "Copy"}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!summary}
+            className="flex items-center px-2 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Export as Markdown"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-4 bg-gray-200 rounded w-full" />
+          <div className="h-4 bg-gray-200 rounded w-5/6" />
+          <div className="h-4 bg-gray-200 rounded w-2/3" />
+        </div>
+      ) : generateError ? (
+        <ErrorDisplay
+          error={generateError.message}
+          onRetry={() =>
+            error
+              ? refetch()
+              : regenerateMutation.mutate({ documentId, summaryType })
+          }
+        />
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <MarkdownMessage
+            content={summary || "No summary was returned for this document."}
+            sources={data?.response.data?.sources}
+          />
+          {data && (
+            <p className="mt-3 text-xs text-gray-500">
+              Generated{" "}
+              {data.generatedAt.toLocaleString("en-US", {
+                month: "short",
+                day: "numeric",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentSummary;
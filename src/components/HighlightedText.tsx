@@ -0,0 +1,41 @@
+import React, { useMemo } from "react";
+import { getHighlightSegments } from "../lib/highlight";
+import type { TextRange } from "../types/api";
+
+interface HighlightedTextProps {
+  text?: string;
+  // Terms to mark; ignored when ranges are given
+  query?: string | string[];
+  // Match offsets from the server
+  ranges?: TextRange[];
+  markClassName?: string;
+}
+
+// Text with search matches wrapped in <mark>, rendered as plain React nodes
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text = "",
+  query,
+  ranges,
+  markClassName = "bg-yellow-200 rounded",
+}) => {
+  const segments = useMemo(
+    () => getHighlightSegments(text, query, ranges),
+    [text, query, ranges]
+  );
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.isMatch ? (
+          <mark key={index} className={markClassName}>
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
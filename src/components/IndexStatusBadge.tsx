@@ -0,0 +1,53 @@
+import React from "react";
+import {
+  CheckCircleIcon,
+  ClockIcon,
+  ExclamationCircleIcon,
+  MinusCircleIcon,
+} from "@heroicons/react/24/outline";
+import { INDEX_STATUS_LABELS, type IndexStatus } from "../lib/indexStatus";
+
+interface IndexStatusBadgeProps {
+  status: IndexStatus;
+  // Shown on hover, e.g. why indexing failed
+  detail?: string;
+  className?: string;
+}
+
+const STATUS_ICONS: Record<
+  IndexStatus,
+  React.ComponentType<React.SVGProps<SVGSVGElement>>
+> = {
+  indexed: CheckCircleIcon,
+  notIndexed: MinusCircleIcon,
+  stale: ClockIcon,
+  failed: ExclamationCircleIcon,
+};
+
+const STATUS_COLORS: Record<IndexStatus, string> = {
+  indexed: "text-green-600",
+  notIndexed: "text-gray-300",
+  stale: "text-amber-500",
+  failed: "text-red-600",
+};
+
+const IndexStatusBadge: React.FC<IndexStatusBadgeProps> = ({
+  status,
+  detail,
+  className,
+}) => {
+  const Icon = STATUS_ICONS[status];
+  const label = INDEX_STATUS_LABELS[status];
+
+  return (
+    <span
+      className={`inline-flex flex-shrink-0 ${STATUS_COLORS[status]} ${className || ""}`}
+      title={detail ? `${label}: ${detail}` : label}
+    >
+      <Icon className="h-4 w-4" aria-hidden="true" />
+      <span className="sr-only">{label}</span>
+    </span>
+  );
+};
+
+export default IndexStatusBadge;
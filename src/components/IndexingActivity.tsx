@@ -0,0 +1,257 @@
+import React, { useState } from "react";
+import {
+  Ban,
+  CheckCircle2,
+  Clock,
+  Loader2,
+  RotateCcw,
+  X,
+  XCircle,
+} from "lucide-react";
+import {
+  useIndexingJobFinished,
+  useIndexingJobs,
+} from "../hooks/useIndexingQueue";
+import { useKeyboardShortcuts } from "../hooks/useKeyboardShortcuts";
+import { indexingQueue } from "../services/indexingQueue";
+import {
+  LARGE_INDEXING_JOB_SIZE,
+  type IndexingJob,
+  type IndexingJobState,
+} from "../types/indexing";
+
+interface IndexingActivityProps {
+  isOpen: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+const NOTIFICATION_DURATION = 8000;
+// Failed documents listed under a job before "and N more"
+const MAX_LISTED_FAILURES = 3;
+
+const JOB_STATES: Record<
+  IndexingJobState,
+  { label: string; icon: React.ReactNode }
+> = {
+  queued: {
+    label: "Queued",
+    icon: <Clock className="w-4 h-4 text-gray-400" />,
+  },
+  running: {
+    label: "Running",
+    icon: <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />,
+  },
+  succeeded: {
+    label: "Succeeded",
+    icon: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  },
+  failed: {
+    label: "Failed",
+    icon: <XCircle className="w-4 h-4 text-red-600" />,
+  },
+  cancelled: {
+    label: "Cancelled",
+    icon: <Ban className="w-4 h-4 text-gray-400" />,
+  },
+};
+
+const pluralizeDocuments = (count: number) =>
+  `${count} document${count === 1 ? "" : "s"}`;
+
+const IndexingJobItem: React.FC<{ job: IndexingJob }> = ({ job }) => {
+  const total = job.documentIds.length;
+  const isActive = job.state === "queued" || job.state === "running";
+  const canRetry = job.state === "failed" || job.state === "cancelled";
+  // Jobs that look up their documents have none to count until it's done
+  const isListed = !job.listDocumentIds;
+  const isSending = job.state === "running" && isListed;
+  const progress = isSending
+    ? `${job.completedCount}/${total} documents`
+    : isListed
+      ? pluralizeDocuments(total)
+      : job.state === "running" && "Finding documents";
+
+  return (
+    <li className="px-4 py-3">
+      <div className="flex items-start space-x-2">
+        <span className="mt-0.5 flex-shrink-0">
+          {JOB_STATES[job.state].icon}
+        </span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-900 truncate">
+            {job.label}
+          </p>
+          <p className="text-xs text-gray-500">
+            {JOB_STATES[job.state].label}
+            {progress && ` · ${progress}`}
+            {job.force && " · forced"}
+          </p>
+        </div>
+        {isActive && (
+          <button
+            onClick={() => indexingQueue.cancel(job.id)}
+            className="px-2 py-1 text-xs text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+        )}
+        {canRetry && (
+          <button
+            onClick={() => indexingQueue.retry(job.id)}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 hover:text-blue-800"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Retry</span>
+          </button>
+        )}
+      </div>
+
+      {isSending && total > 0 && (
+        <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${(job.completedCount / total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {job.error && <p className="mt-2 text-xs text-red-600">{job.error}</p>}
+      {job.failures.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+          {job.failures.slice(0, MAX_LISTED_FAILURES).map((failure) => (
+            <li key={failure.documentId} className="truncate">
+              <span className="font-mono">{failure.documentId}</span>:{" "}
+              {failure.error}
+            </li>
+          ))}
+          {job.failures.length > MAX_LISTED_FAILURES && (
+            <li>and {job.failures.length - MAX_LISTED_FAILURES} more</li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// Drawer listing every indexing job of the session, plus a notice when a
+// large job finishes while the drawer is closed
+const IndexingActivity: React.FC<IndexingActivityProps> = ({
+  isOpen,
+  onOpen,
+  onClose,
+}) => {
+  const jobs = useIndexingJobs();
+  const [notifications, setNotifications] = useState<IndexingJob[]>([]);
+
+  const dismissNotification = (jobId: string) => {
+    setNotifications((prev) => prev.filter((job) => job.id !== jobId));
+  };
+
+  useIndexingJobFinished((job) => {
+    if (
+      job.state === "cancelled" ||
+      job.documentIds.length < LARGE_INDEXING_JOB_SIZE
+    ) {
+      return;
+    }
+    setNotifications((prev) => [
+      ...prev.filter(({ id }) => id !== job.id),
+      job,
+    ]);
+    setTimeout(() => dismissNotification(job.id), NOTIFICATION_DURATION);
+  });
+
+  useKeyboardShortcuts({ Escape: onClose }, isOpen);
+
+  const hasFinishedJobs = jobs.some(
+    (job) => job.state !== "queued" && job.state !== "running"
+  );
+
+  return (
+    <>
+      {isOpen && (
+        <aside
+          className="fixed inset-y-0 right-0 z-40 w-96 max-w-full bg-white border-l border-gray-200 shadow-xl flex flex-col"
+          aria-label="Indexing activity"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h2 className="text-base font-semibold text-gray-900">
+              Indexing activity
+            </h2>
+            <div className="flex items-center space-x-2">
+              {hasFinishedJobs && (
+                <button
+                  onClick={() => indexingQueue.clearFinished()}
+                  className="text-xs text-gray-600 hover:text-gray-900"
+                >
+                  Clear finished
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="p-1 rounded text-gray-400 hover:text-gray-600"
+                aria-label="Close indexing activity"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {jobs.length > 0 ? (
+            <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+              {jobs.map((job) => (
+                <IndexingJobItem key={job.id} job={job} />
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-8 text-sm text-center text-gray-500">
+              Documents you index show up here.
+            </p>
+          )}
+        </aside>
+      )}
+
+      {!isOpen && notifications.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-40 space-y-2 w-80">
+          {notifications.map((job) => (
+            <div
+              key={job.id}
+              role="status"
+              className="flex items-start space-x-2 p-3 bg-white border border-gray-200 rounded-lg shadow-lg"
+            >
+              <span className="mt-0.5">{JOB_STATES[job.state].icon}</span>
+              <div className="flex-1 min-w-0 text-sm">
+                <p className="font-medium text-gray-900 truncate">
+                  {job.label}
+                </p>
+                <p className="text-gray-600">
+                  {job.state === "succeeded"
+                    ? `Indexed ${pluralizeDocuments(job.documentIds.length)}`
+                    : job.error || "Indexing failed"}
+                </p>
+                <button
+                  onClick={() => {
+                    dismissNotification(job.id);
+                    onOpen();
+                  }}
+                  className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                >
+                  View activity
+                </button>
+              </div>
+              <button
+                onClick={() => dismissNotification(job.id)}
+                className="p-0.5 rounded text-gray-400 hover:text-gray-600"
+                aria-label="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default IndexingActivity;
@@ -0,0 +1,64 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { KEYBOARD_SHORTCUTS } from "../lib/shortcuts";
+
+interface KeyboardShortcutsHelpProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// "?" overlay listing every keyboard shortcut
+const KeyboardShortcutsHelp: React.FC<KeyboardShortcutsHelpProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md bg-white">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts work anywhere outside text fields.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {KEYBOARD_SHORTCUTS.map((section) => (
+            <section key={section.title}>
+              <h3 className="mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                {section.title}
+              </h3>
+              <dl className="space-y-1.5">
+                {section.shortcuts.map((shortcut) => (
+                  <div
+                    key={shortcut.description}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <dt className="text-gray-700">{shortcut.description}</dt>
+                    <dd className="flex items-center space-x-1">
+                      {shortcut.keys.map((key) => (
+                        <kbd
+                          key={key}
+                          className="min-w-[1.5rem] px-1.5 py-0.5 text-center text-xs font-mono text-gray-700 bg-gray-100 border border-gray-300 rounded"
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsHelp;
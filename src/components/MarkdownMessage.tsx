@@ -0,0 +1,223 @@
+import React, { useMemo, useRef, useState } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import { ClipboardDocumentIcon, CheckIcon } from "@heroicons/react/24/outline";
+import "highlight.js/styles/github.css";
+import { CITATION_HREF_PREFIX, remarkCitations } from "../lib/citations";
+import type { RAGSource } from "../types/api";
+
+interface MarkdownMessageProps {
+  content: string;
+  sources?: RAGSource[];
+  onCitationClick?: (source: RAGSource, citation: number) => void;
+  // Shows a cursor after the last token while the answer streams in
+  isStreaming?: boolean;
+  className?: string;
+}
+
+interface HtmlNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HtmlNode[];
+}
+
+// Shared default so the memoized renderers survive answers without sources
+const NO_SOURCES: RAGSource[] = [];
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+const isSafeUrl = (href?: string): boolean => {
+  if (!href) return false;
+  try {
+    return SAFE_PROTOCOLS.includes(
+      new URL(href, window.location.href).protocol
+    );
+  } catch {
+    return false;
+  }
+};
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({
+  children,
+  className,
+}) => {
+  const [copied, setCopied] = useState(false);
+  const preRef = useRef<HTMLPreElement>(null);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText || "");
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy code:", error);
+    }
+  };
+
+  return (
+    <div className="not-prose relative group my-3">
+      <pre
+        ref={preRef}
+        className={`overflow-x-auto rounded-md border border-gray-200 bg-white p-3 text-xs leading-relaxed ${className || ""}`}
+      >
+        {children}
+      </pre>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-2 right-2 flex items-center space-x-1 px-2 py-1 text-xs text-gray-500 bg-white border border-gray-200 rounded opacity-0 group-hover:opacity-100 hover:text-gray-700 transition-opacity"
+        title="Copy code"
+      >
+        {copied ? (
+          <CheckIcon className="w-3 h-3 text-green-600" />
+        ) : (
+          <ClipboardDocumentIcon className="w-3 h-3" />
+        )}
+        <span>{copied ? "Copied" : "Copy"}</span>
+      </button>
+    </div>
+  );
+};
+
+const Citation: React.FC<{
+  citation: number;
+  source: RAGSource;
+  onClick?: (source: RAGSource, citation: number) => void;
+}> = ({ citation, source, onClick }) => {
+  return (
+    <sup className="not-prose relative group/citation mx-0.5">
+      <button
+        type="button"
+        onClick={() => onClick?.(source, citation)}
+        className="px-1 rounded text-[10px] font-semibold text-blue-700 bg-blue-100 hover:bg-blue-200 transition-colors"
+        aria-label={`Source ${citation}: ${source.fileName}`}
+      >
+        {citation}
+      </button>
+      <span
+        role="tooltip"
+        className="pointer-events-none absolute bottom-full left-1/2 z-20 mb-1 w-64 -translate-x-1/2 rounded-md border border-gray-200 bg-white p-2 text-left text-xs font-normal leading-snug text-gray-700 shadow-lg opacity-0 group-hover/citation:opacity-100 transition-opacity"
+      >
+        <span className="block font-medium text-gray-900 truncate">
+          {source.fileName || "Untitled Document"}
+        </span>
+        <span className="block mt-1 line-clamp-4">{source.snippet}</span>
+      </span>
+    </sup>
+  );
+};
+
+const SafeLink: React.FC<{ href?: string; children?: React.ReactNode }> = ({
+  href,
+  children,
+}) =>
+  isSafeUrl(href) ? (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow">
+      {children}
+    </a>
+  ) : (
+    <span>{children}</span>
+  );
+
+// Appends the streaming cursor inside the innermost last element, so it sits
+// right after the final token instead of on a line of its own. Citation links
+// are not entered since they render as a Citation.
+const rehypeStreamingCursor = () => (tree: HtmlNode) => {
+  let parent = tree;
+  for (;;) {
+    const last = [...(parent.children || [])]
+      .reverse()
+      .find((node) => node.type !== "text" || node.value?.trim());
+    if (last?.type !== "element" || last.tagName === "a") break;
+    parent = last;
+  }
+  parent.children = [
+    ...(parent.children || []),
+    {
+      type: "element",
+      tagName: "span",
+      properties: {
+        className: [
+          "inline-block",
+          "w-2",
+          "h-4",
+          "ml-0.5",
+          "align-text-bottom",
+          "bg-gray-500",
+          "animate-pulse",
+        ],
+        ariaHidden: "true",
+      },
+      children: [],
+    },
+  ];
+};
+
+const baseComponents: Components = {
+  pre: ({ children, className }) => (
+    <CodeBlock className={className}>{children}</CodeBlock>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+// Renders assistant answers as GitHub-flavoured markdown. Raw HTML is never
+// parsed and the resulting tree is sanitized before syntax highlighting.
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({
+  content,
+  sources = NO_SOURCES,
+  onCitationClick,
+  isStreaming,
+  className,
+}) => {
+  const components = useMemo<Components>(
+    () => ({
+      ...baseComponents,
+      a: ({ href, children }) => {
+        if (href?.startsWith(CITATION_HREF_PREFIX)) {
+          const citation = parseInt(href.slice(CITATION_HREF_PREFIX.length));
+          const source = sources[citation - 1];
+          if (source) {
+            return (
+              <Citation
+                citation={citation}
+                source={source}
+                onClick={onCitationClick}
+              />
+            );
+          }
+        }
+        return <SafeLink href={href}>{children}</SafeLink>;
+      },
+    }),
+    [sources, onCitationClick]
+  );
+
+  return (
+    <div className={`prose prose-sm max-w-none ${className || ""}`}>
+      <ReactMarkdown
+        remarkPlugins={[
+          remarkGfm,
+          [remarkCitations, { maxCitation: sources.length }],
+        ]}
+        rehypePlugins={
+          isStreaming
+            ? [rehypeSanitize, rehypeHighlight, rehypeStreamingCursor]
+            : [rehypeSanitize, rehypeHighlight]
+        }
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownMessage;
@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  DocumentTextIcon,
+  BeakerIcon,
+} from "@heroicons/react/24/outline";
+import MarkdownMessage from "./MarkdownMessage";
+import type { RAGReasoningStep, RAGSource } from "../types/api";
+
+interface ResearchStepsProps {
+  steps: RAGReasoningStep[];
+  onSourceClick?: (source: RAGSource) => void;
+  className?: string;
+}
+
+const ResearchStep: React.FC<{
+  step: RAGReasoningStep;
+  stepNumber: number;
+  isLast: boolean;
+  onSourceClick?: (source: RAGSource) => void;
+}> = ({ step, stepNumber, isLast, onSourceClick }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <li className="relative pl-7">
+      {!isLast && (
+        <span className="absolute left-2.5 top-6 bottom-0 w-px bg-gray-200" />
+      )}
+      <span className="absolute left-0 top-0.5 flex items-center justify-center w-5 h-5 rounded-full bg-blue-100 text-[10px] font-semibold text-blue-700">
+        {stepNumber}
+      </span>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-start w-full text-left text-sm text-gray-800 hover:text-gray-900"
+        aria-expanded={isExpanded}
+      >
+        <span className="flex-1 font-medium">{step.subQuestion}</span>
+        {isExpanded ? (
+          <ChevronDownIcon className="w-4 h-4 mt-0.5 ml-2 flex-shrink-0 text-gray-400" />
+        ) : (
+          <ChevronRightIcon className="w-4 h-4 mt-0.5 ml-2 flex-shrink-0 text-gray-400" />
+        )}
+      </button>
+      {!isExpanded && step.sources.length > 0 && (
+        <p className="text-xs text-gray-500 mt-0.5">
+          {step.sources.length} source{step.sources.length === 1 ? "" : "s"}
+        </p>
+      )}
+
+      {isExpanded && (
+        <div className="mt-2 pb-3 space-y-2">
+          {step.partialAnswer && (
+            <MarkdownMessage
+              content={step.partialAnswer}
+              sources={step.sources}
+              onCitationClick={onSourceClick}
+              className="text-gray-700"
+            />
+          )}
+          {step.sources.length > 0 && (
+            <ul className="space-y-1">
+              {step.sources.map((source, index) => (
+                <li key={index}>
+                  <button
+                    type="button"
+                    onClick={() => onSourceClick?.(source)}
+                    className="flex items-center w-full space-x-2 px-2 py-1 rounded text-xs text-gray-600 hover:bg-gray-50 transition-colors"
+                  >
+                    <span className="flex-shrink-0 font-semibold text-blue-700">
+                      {index + 1}
+                    </span>
+                    <DocumentTextIcon className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+                    <span className="flex-1 truncate text-left">
+                      {source.fileName || "Untitled Document"}
+                    </span>
+                    <span className="flex-shrink-0 text-gray-400">
+                      {Math.round(source.relevanceScore * 100)}%
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+// Collapsible trace of the intermediate steps behind a multi-step answer
+const ResearchSteps: React.FC<ResearchStepsProps> = ({
+  steps,
+  onSourceClick,
+  className,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (steps.length === 0) return null;
+
+  return (
+    <div
+      className={`not-prose rounded-md border border-gray-200 bg-white ${className || ""}`}
+    >
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center w-full px-3 py-2 space-x-2 text-xs font-medium text-gray-600 hover:text-gray-900"
+        aria-expanded={isExpanded}
+      >
+        <BeakerIcon className="w-4 h-4 text-blue-600" />
+        <span className="flex-1 text-left">
+          Research trace · {steps.length} step{steps.length === 1 ? "" : "s"}
+        </span>
+        {isExpanded ? (
+          <ChevronDownIcon className="w-4 h-4" />
+        ) : (
+          <ChevronRightIcon className="w-4 h-4" />
+        )}
+      </button>
+      {isExpanded && (
+        <ol className="px-3 pb-2 pt-1 space-y-2">
+          {steps.map((step, index) => (
+            <ResearchStep
+              key={index}
+              step={step}
+              stepNumber={index + 1}
+              isLast={index === steps.length - 1}
+              onSourceClick={onSourceClick}
+            />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ResearchSteps;
@@ -8,11 +8,13 @@ import {
   Shuffle,
   TrendingUp,
 } from "lucide-react";
-import type { SearchResult } from "../types/api";
+import type { SearchResult, SearchRetriever } from "../types/api";
 import { cn } from "../lib/utils";
 import { ResultsListSkeleton } from "./LoadingSkeletons";
 import { ErrorDisplay, EmptyState } from "./ErrorBoundary";
+import HighlightedText from "./HighlightedText";
 import { useSimilarDocuments, useSearchStats } from "../hooks/useApi";
+import { getDriveUrl } from "../lib/searchResults";
 
 interface ResultsListProps {
   results: SearchResult[];
@@ -27,8 +29,22 @@ interface ResultsListProps {
   showStats?: boolean;
   showSimilar?: boolean;
   selectedDocumentId?: string;
+  // Result highlighted by keyboard navigation
+  activeIndex?: number;
 }
 
+const RETRIEVER_BADGES: Record<
+  SearchRetriever,
+  { label: string; className: string }
+> = {
+  semantic: { label: "Semantic", className: "bg-indigo-100 text-indigo-700" },
+  keyword: { label: "Keyword", className: "bg-amber-100 text-amber-700" },
+};
+
+// Retriever names come straight from the response; unknown ones get no badge
+const isKnownRetriever = (retriever: string): retriever is SearchRetriever =>
+  Object.hasOwn(RETRIEVER_BADGES, retriever);
+
 const ResultsList: React.FC<ResultsListProps> = ({
   results,
   isLoading = false,
@@ -42,6 +58,7 @@ const ResultsList: React.FC<ResultsListProps> = ({
   showStats = false,
   showSimilar = false,
   selectedDocumentId,
+  activeIndex = -1,
 }) => {
   const [visibleResults, setVisibleResults] = useState<SearchResult[]>([]);
   const [showStatsPanel, setShowStatsPanel] = useState(false);
@@ -74,6 +91,14 @@ const ResultsList: React.FC<ResultsListProps> = ({
     }
   );
 
+  // Keep the keyboard-selected result in view
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    observerRef.current
+      ?.querySelector(`[data-result-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
   // Update visible results when results change
   useEffect(() => {
     setVisibleResults(results);
@@ -106,27 +131,6 @@ const ResultsList: React.FC<ResultsListProps> = ({
     };
   }, [hasMore, isLoading, onLoadMore]);
 
-  // Highlight search terms in text
-  const highlightText = (text: string, query: string): React.ReactNode => {
-    if (!query.trim()) return text;
-
-    const terms = query
-      .toLowerCase()
-      .split(" ")
-      .filter((term) => term.length > 0);
-    let highlightedText = text;
-
-    terms.forEach((term) => {
-      const regex = new RegExp(`(${term})`, "gi");
-      highlightedText = highlightedText?.replace(
-        regex,
-        '<mark class="bg-yellow-200 px-1 rounded">$1</mark>'
-      );
-    });
-
-    return <span dangerouslySetInnerHTML={{ __html: highlightedText }} />;
-  };
-
   // Format date
   const formatDate = (dateString: string): string => {
     try {
@@ -384,17 +388,24 @@ const ResultsList: React.FC<ResultsListProps> = ({
         {visibleResults.map((result, index) => (
           <div
             key={`${result._id || result.documentId}-${index}`}
+            data-result-index={index}
+            aria-current={activeIndex === index || undefined}
             onClick={(e) => handleResultClick(result, e)}
-            className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md hover:border-gray-300 transition-all duration-200 cursor-pointer group"
+            className={cn(
+              "bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md hover:border-gray-300 transition-all duration-200 cursor-pointer group",
+              activeIndex === index && "ring-2 ring-blue-500 border-blue-300"
+            )}
           >
             {/* Header */}
             <div className="flex items-start justify-between mb-3">
               <div className="flex-1 min-w-0">
                 <h3 className="text-lg font-semibold text-gray-900 group-hover:text-blue-600 transition-colors truncate">
-                  {highlightText(
-                    result?.title || result?.fileName || result?.documentName,
-                    searchQuery
-                  )}
+                  <HighlightedText
+                    text={
+                      result?.title || result?.fileName || result?.documentName
+                    }
+                    query={searchQuery}
+                  />
                 </h3>
                 <div className="flex items-center mt-1 text-sm text-gray-500 space-x-4">
                   {result.folderName && (
@@ -430,18 +441,28 @@ const ResultsList: React.FC<ResultsListProps> = ({
                       Chunk {result.chunkIndex + 1}
                     </div>
                   )}
+                  {result.retrievers?.filter(isKnownRetriever).map((retriever) => (
+                    <div
+                      key={retriever}
+                      className={cn(
+                        "text-xs px-2 py-1 rounded",
+                        RETRIEVER_BADGES[retriever].className
+                      )}
+                      title={`Found by ${retriever} search${
+                        result.retrieverScores?.[retriever] !== undefined
+                          ? `, score ${result.retrieverScores[retriever].toFixed(2)}`
+                          : ""
+                      }`}
+                    >
+                      {RETRIEVER_BADGES[retriever].label}
+                    </div>
+                  ))}
                 </div>
               </div>
 
               {/* External Link Button */}
               <button
-                onClick={(e) =>
-                  handleExternalLinkClick(
-                    result.driveUrl ||
-                      `https://drive.google.com/file/d/${result.documentId}/view`,
-                    e
-                  )
-                }
+                onClick={(e) => handleExternalLinkClick(getDriveUrl(result), e)}
                 className="external-link flex-shrink-0 ml-4 p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
                 title="Open in Google Drive"
               >
@@ -452,7 +473,11 @@ const ResultsList: React.FC<ResultsListProps> = ({
             {/* Snippet */}
             <div className="text-gray-700 leading-relaxed">
               <p className="line-clamp-3">
-                {highlightText(result.text || result.snippet, searchQuery)}
+                <HighlightedText
+                  text={result.text || result.snippet}
+                  query={searchQuery}
+                  ranges={result.text ? result.highlights : undefined}
+                />
               </p>
             </div>
 
@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import {
+  BookmarkIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import {
+  useDeleteSavedSearch,
+  useSaveSearch,
+  useSavedSearches,
+} from "../hooks/useSearchHistory";
+import { describeStoredSearch } from "../lib/searchFilters";
+import type { StoredSearch } from "../types/search";
+
+interface SavedSearchesProps {
+  onRunSearch: (search: StoredSearch) => void;
+  className?: string;
+}
+
+interface SaveSearchButtonProps {
+  search: StoredSearch;
+  className?: string;
+}
+
+// Pinned searches, re-run with their mode, scope and filters on click
+const SavedSearches: React.FC<SavedSearchesProps> = ({
+  onRunSearch,
+  className,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const { data: savedSearches = [] } = useSavedSearches();
+  const deleteSavedSearch = useDeleteSavedSearch();
+
+  if (savedSearches.length === 0) return null;
+
+  return (
+    <div className={`border-b border-gray-200 ${className || ""}`}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center w-full px-4 py-2 text-xs font-medium text-gray-500 uppercase tracking-wide hover:text-gray-700"
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDownIcon className="h-3 w-3 mr-1" />
+        ) : (
+          <ChevronRightIcon className="h-3 w-3 mr-1" />
+        )}
+        Saved searches ({savedSearches.length})
+      </button>
+      {isExpanded && (
+        <ul className="pb-2 max-h-48 overflow-y-auto">
+          {savedSearches.map((savedSearch) => {
+            const description = describeStoredSearch(savedSearch.search);
+            return (
+              <li
+                key={savedSearch.id}
+                className="group flex items-center px-2 hover:bg-gray-50"
+              >
+                <button
+                  onClick={() => onRunSearch(savedSearch.search)}
+                  className="flex-1 min-w-0 flex items-start px-2 py-1.5 text-left"
+                  title={savedSearch.search.q}
+                >
+                  <BookmarkIcon className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-blue-500" />
+                  <span className="min-w-0">
+                    <span className="block text-sm text-gray-900 truncate">
+                      {savedSearch.name}
+                    </span>
+                    <span className="block text-xs text-gray-500 truncate">
+                      {savedSearch.search.q}
+                      {description && ` · ${description}`}
+                    </span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => deleteSavedSearch.mutate(savedSearch.id)}
+                  className="p-1 text-gray-400 hover:text-gray-600 rounded opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  aria-label={`Delete saved search "${savedSearch.name}"`}
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Names the current search and pins it to the saved searches
+export const SaveSearchButton: React.FC<SaveSearchButtonProps> = ({
+  search,
+  className,
+}) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState("");
+  const saveSearch = useSaveSearch({
+    onSuccess: () => {
+      setIsNaming(false);
+      setName("");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    saveSearch.mutate({
+      id: `search-${Date.now()}`,
+      name: name.trim(),
+      search,
+      createdAt: new Date(),
+    });
+  };
+
+  if (!isNaming) {
+    return (
+      <button
+        onClick={() => {
+          setName(search.q);
+          setIsNaming(true);
+        }}
+        className={`flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 transition-colors ${className || ""}`}
+      >
+        <BookmarkIcon className="w-4 h-4" />
+        <span>Save search</span>
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={`flex items-center space-x-2 ${className || ""}`}
+    >
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setIsNaming(false);
+        }}
+        placeholder="Name this search"
+        className="w-48 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        aria-label="Saved search name"
+        autoFocus
+      />
+      <button
+        type="submit"
+        disabled={!name.trim() || saveSearch.isPending}
+        className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        Save
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsNaming(false)}
+        className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        Cancel
+      </button>
+    </form>
+  );
+};
+
+export default SavedSearches;
@@ -1,7 +1,32 @@
-import React, { useState, useEffect, useRef } from "react";
-import { MagnifyingGlassIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import React, { useState, useEffect, useRef, useMemo, useId } from "react";
+import {
+  MagnifyingGlassIcon,
+  XMarkIcon,
+  ExclamationCircleIcon,
+  ClockIcon,
+} from "@heroicons/react/24/outline";
 import { useQuery } from "@tanstack/react-query";
 import { apiService } from "../services/api";
+import type { SearchMode } from "../types/api";
+import {
+  DEFAULT_SEARCH_MODE,
+  SEARCH_MODES,
+  SEARCH_MODE_LABELS,
+  type SearchHistoryEntry,
+  type StoredSearch,
+} from "../types/search";
+import {
+  useClearSearchHistory,
+  useDeleteSearchHistoryEntry,
+  useSearchHistory,
+} from "../hooks/useSearchHistory";
+import { describeStoredSearch } from "../lib/searchFilters";
+import { useKeyboardShortcuts } from "../hooks/useKeyboardShortcuts";
+import {
+  parseSearchQuery,
+  type QueryToken,
+  type QueryTokenKind,
+} from "../lib/queryParser";
 
 interface SearchBarProps {
   onSearch: (query: string, folderId?: string, documentId?: string) => void;
@@ -9,27 +34,102 @@ interface SearchBarProps {
   className?: string;
   selectedFolderId?: string;
   selectedDocumentId?: string;
+  mode?: SearchMode;
+  onModeChange?: (mode: SearchMode) => void;
+  // Re-runs a search from history with its mode, scope and filters
+  onSearchSelect?: (search: StoredSearch) => void;
+  // The search in the URL; the input follows it on back/forward and when a
+  // saved search is opened
+  currentQuery?: string;
 }
 
+// Recent searches listed above the suggestions
+const MAX_HISTORY_SUGGESTIONS = 5;
+// Height of a history row (h-9), used to line up its remove button
+const HISTORY_ROW_HEIGHT = 36;
+
+const SEARCH_MODE_TITLES: Record<SearchMode, string> = {
+  semantic: "Match by meaning",
+  keyword: "Match exact words",
+  hybrid: "Combine semantic and keyword matches",
+};
+
+const TOKEN_CLASSES: Record<QueryTokenKind, string> = {
+  text: "",
+  phrase: "bg-green-100 text-green-800 rounded",
+  exclude: "bg-gray-200 text-gray-500 line-through rounded",
+  type: "bg-blue-100 text-blue-800 rounded",
+  folder: "bg-blue-100 text-blue-800 rounded",
+  after: "bg-blue-100 text-blue-800 rounded",
+  invalid: "text-red-600 underline decoration-wavy decoration-red-500",
+};
+
+// Renders the query with its parsed tokens styled, behind a transparent input
+const QueryHighlight = React.forwardRef<
+  HTMLDivElement,
+  { query: string; tokens: QueryToken[] }
+>(({ query, tokens }, ref) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  tokens.forEach((token) => {
+    if (token.start > position) {
+      parts.push(query.slice(position, token.start));
+    }
+    parts.push(
+      <span key={token.start} className={TOKEN_CLASSES[token.kind]}>
+        {token.raw}
+      </span>
+    );
+    position = token.end;
+  });
+  parts.push(query.slice(position));
+
+  return (
+    <div
+      ref={ref}
+      aria-hidden="true"
+      className="absolute inset-0 px-4 py-3 pr-10 text-gray-900 whitespace-pre overflow-hidden pointer-events-none"
+    >
+      {parts}
+    </div>
+  );
+});
+QueryHighlight.displayName = "QueryHighlight";
+
 const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
   placeholder = "Search documents...",
   className,
   selectedFolderId,
   selectedDocumentId,
+  mode = DEFAULT_SEARCH_MODE,
+  onModeChange,
+  onSearchSelect,
+  currentQuery = "",
 }) => {
-  const [query, setQuery] = useState("");
+  const [query, setQuery] = useState(currentQuery);
+  const [syncedQuery, setSyncedQuery] = useState(currentQuery);
+  if (currentQuery !== syncedQuery) {
+    setSyncedQuery(currentQuery);
+    setQuery(currentQuery);
+  }
   const [debouncedQuery, setDebouncedQuery] = useState("");
   const [showAutocomplete, setShowAutocomplete] = useState(false);
   const [isComposing, setIsComposing] = useState(false);
 
   const inputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
   const autocompleteRef = useRef<HTMLDivElement>(null);
 
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+  const queryErrors = parsedQuery.errors;
+
   // Fetch search suggestions
   const { data: suggestionsData, isLoading: isLoadingSuggestions } = useQuery({
     queryKey: ["search-suggestions", debouncedQuery],
-    queryFn: () => apiService.getSearchSuggestions(debouncedQuery, 5),
+    queryFn: ({ signal }) =>
+      apiService.getSearchSuggestions(debouncedQuery, 5, signal),
     enabled: !!debouncedQuery && debouncedQuery.length > 1,
     staleTime: 30000, // 30 seconds
     select: (data) => data.data,
@@ -47,18 +147,65 @@ const SearchBar: React.FC<SearchBarProps> = ({
   }, [query, isComposing]);
 
   const suggestions = suggestionsData?.suggestions || [];
+  const hasSuggestionQuery = debouncedQuery.length > 1;
+
+  const { data: searchHistory } = useSearchHistory();
+  const deleteHistoryEntry = useDeleteSearchHistoryEntry();
+  const clearHistory = useClearSearchHistory();
+
+  const matchingHistory = useMemo(() => {
+    const filter = query.trim().toLowerCase();
+    return (searchHistory || [])
+      .filter((entry) => entry.search.q.toLowerCase().includes(filter))
+      .slice(0, MAX_HISTORY_SUGGESTIONS);
+  }, [searchHistory, query]);
+
+  const showDropdown =
+    showAutocomplete && (matchingHistory.length > 0 || hasSuggestionQuery);
+
+  // History entries and suggestions form one list for arrow-key navigation
+  const suggestionOptions =
+    hasSuggestionQuery && !isLoadingSuggestions ? suggestions : [];
+  const optionCount = matchingHistory.length + suggestionOptions.length;
+  const [activeOptionIndex, setActiveOptionIndex] = useState(-1);
+  const activeIndex =
+    showDropdown && activeOptionIndex < optionCount ? activeOptionIndex : -1;
+
+  const listboxId = useId();
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
+
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    document
+      .getElementById(`${listboxId}-option-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, listboxId]);
+
+  useKeyboardShortcuts({
+    "/": () => inputRef.current?.focus(),
+  });
 
   // Handle input change
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setQuery(value);
-    setShowAutocomplete(value.length > 1);
+    setQuery(e.target.value);
+    setShowAutocomplete(true);
+    setActiveOptionIndex(-1);
+  };
+
+  const handleHistorySelect = (entry: SearchHistoryEntry) => {
+    setQuery(entry.search.q);
+    setShowAutocomplete(false);
+    if (onSearchSelect) {
+      onSearchSelect(entry.search);
+    } else {
+      onSearch(entry.search.q, entry.search.folder, entry.search.document);
+    }
   };
 
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim()) {
+    if (query.trim() && queryErrors.length === 0) {
       onSearch(query.trim(), selectedFolderId, selectedDocumentId);
       setShowAutocomplete(false);
     }
@@ -67,8 +214,56 @@ const SearchBar: React.FC<SearchBarProps> = ({
   // Handle autocomplete selection
   const handleAutocompleteSelect = (suggestion: string) => {
     setQuery(suggestion);
-    setShowAutocomplete(false);
+    // Focusing first keeps onFocus from reopening the dropdown
     inputRef.current?.focus();
+    setShowAutocomplete(false);
+  };
+
+  const selectOption = (index: number) => {
+    if (index < matchingHistory.length) {
+      handleHistorySelect(matchingHistory[index]);
+    } else {
+      handleAutocompleteSelect(
+        suggestionOptions[index - matchingHistory.length]
+      );
+    }
+  };
+
+  // Arrow keys move through the dropdown; Enter picks the active option
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        e.preventDefault();
+        if (!showDropdown) {
+          setShowAutocomplete(true);
+          setActiveOptionIndex(-1);
+          return;
+        }
+        if (optionCount === 0) return;
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveOptionIndex(
+          activeIndex < 0 && step < 0
+            ? optionCount - 1
+            : (activeIndex + step + optionCount) % optionCount
+        );
+        return;
+      }
+      case "Enter":
+        if (activeIndex >= 0) {
+          e.preventDefault();
+          selectOption(activeIndex);
+        }
+        return;
+      case "Escape":
+        if (showDropdown) {
+          e.preventDefault();
+          setShowAutocomplete(false);
+        } else {
+          inputRef.current?.blur();
+        }
+        return;
+    }
   };
 
   // Clear search
@@ -95,7 +290,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
   }, []);
 
   return (
-    <div className={`relative w-full ${className || ""}`}>
+    <div ref={autocompleteRef} className={`relative w-full ${className || ""}`}>
       {/* Main Search Bar */}
       <form onSubmit={handleSubmit} className="relative">
         <div className="flex items-center bg-white border border-gray-300 rounded-lg shadow-sm focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500">
@@ -106,16 +301,39 @@ const SearchBar: React.FC<SearchBarProps> = ({
 
           {/* Search Input */}
           <div className="flex-1 relative">
+            <QueryHighlight
+              ref={highlightRef}
+              query={query}
+              tokens={parsedQuery.tokens}
+            />
             <input
               ref={inputRef}
               type="text"
               value={query}
               onChange={handleInputChange}
+              onFocus={() => setShowAutocomplete(true)}
+              onKeyDown={handleKeyDown}
+              role="combobox"
+              aria-expanded={showDropdown}
+              aria-controls={listboxId}
+              aria-autocomplete="list"
+              aria-activedescendant={
+                activeIndex >= 0 ? getOptionId(activeIndex) : undefined
+              }
               onCompositionStart={() => setIsComposing(true)}
               onCompositionEnd={() => setIsComposing(false)}
+              onScroll={(e) => {
+                if (highlightRef.current) {
+                  highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+                }
+              }}
               placeholder={placeholder}
-              className="w-full px-4 py-3 text-gray-900 placeholder-gray-500 bg-transparent border-0 focus:outline-none"
+              className="relative w-full px-4 py-3 pr-10 text-transparent caret-gray-900 placeholder-gray-500 bg-transparent border-0 focus:outline-none"
               autoComplete="off"
+              aria-invalid={queryErrors.length > 0}
+              aria-describedby={
+                queryErrors.length > 0 ? "search-query-errors" : undefined
+              }
             />
 
             {/* Clear Button */}
@@ -130,53 +348,189 @@ const SearchBar: React.FC<SearchBarProps> = ({
             )}
           </div>
 
+          {/* Search Mode */}
+          {onModeChange && (
+            <div
+              role="radiogroup"
+              aria-label="Search mode"
+              className="flex items-center mr-2 rounded-md bg-gray-100 p-0.5"
+            >
+              {SEARCH_MODES.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  role="radio"
+                  aria-checked={mode === option}
+                  onClick={() => onModeChange(option)}
+                  title={SEARCH_MODE_TITLES[option]}
+                  className={`px-2 py-1 text-xs rounded transition-colors ${
+                    mode === option
+                      ? "bg-white text-blue-700 shadow-sm"
+                      : "text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {SEARCH_MODE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Search Button */}
           <button
             type="submit"
-            disabled={!query.trim()}
+            disabled={!query.trim() || queryErrors.length > 0}
             className="px-6 py-3 bg-blue-600 text-white rounded-r-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
           >
             <MagnifyingGlassIcon className="h-5 w-5" />
           </button>
         </div>
 
+        {/* Query Syntax Errors */}
+        {queryErrors.length > 0 && (
+          <ul id="search-query-errors" className="mt-1 space-y-0.5">
+            {queryErrors.map((error, index) => (
+              <li
+                key={index}
+                className="flex items-center text-xs text-red-600"
+              >
+                <ExclamationCircleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+                {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Autocomplete Dropdown */}
-        {showAutocomplete && debouncedQuery && (
+        {showDropdown && (
           <div className="relative">
-            {isLoadingSuggestions ? (
-              <div className="absolute top-full left-0 right-0 bg-white border border-gray-200 rounded-lg shadow-lg mt-1 z-50">
-                <div className="p-4 text-center text-gray-500">
-                  <div className="animate-pulse flex space-x-2">
-                    <div className="h-4 bg-gray-200 rounded flex-1"></div>
-                  </div>
+            <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-300 rounded-md shadow-lg z-40 max-h-80 overflow-y-auto">
+              {matchingHistory.length > 0 && (
+                <div className="flex items-center justify-between px-4 pt-2 pb-1">
+                  <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                    Recent searches
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => clearHistory.mutate()}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Clear all
+                  </button>
                 </div>
-              </div>
-            ) : suggestions && suggestions.length > 0 ? (
-              <div
-                ref={autocompleteRef}
-                className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-300 rounded-md shadow-lg z-40 max-h-60 overflow-y-auto"
-              >
-                <div className="py-2">
-                  {suggestions.map((suggestion, index) => (
-                    <button
-                      key={index}
-                      type="button"
-                      onClick={() => handleAutocompleteSelect(suggestion)}
-                      className="w-full px-4 py-3 text-left text-sm hover:bg-gray-50 flex items-center"
+              )}
+              <div className="relative">
+                <div
+                  id={listboxId}
+                  role="listbox"
+                  aria-label="Search suggestions"
+                >
+                  {/* Recent Searches */}
+                  {matchingHistory.length > 0 && (
+                    <div
+                      role="group"
+                      aria-label="Recent searches"
+                      className={`pb-2 ${hasSuggestionQuery ? "border-b border-gray-100" : ""}`}
                     >
-                      <MagnifyingGlassIcon className="h-4 w-4 mr-2 text-gray-400" />
-                      {suggestion}
-                    </button>
-                  ))}
-                </div>
-              </div>
-            ) : debouncedQuery.length > 1 ? (
-              <div className="absolute top-full left-0 right-0 bg-white border border-gray-200 rounded-lg shadow-lg mt-1 z-50">
-                <div className="p-4 text-center text-gray-500">
-                  No suggestions found
+                      {matchingHistory.map((entry, index) => {
+                        const description = describeStoredSearch(entry.search);
+                        return (
+                          <button
+                            key={entry.id}
+                            id={getOptionId(index)}
+                            type="button"
+                            role="option"
+                            aria-selected={activeIndex === index}
+                            tabIndex={-1}
+                            onClick={() => handleHistorySelect(entry)}
+                            onMouseEnter={() => setActiveOptionIndex(index)}
+                            className={`w-full h-9 flex items-center pl-4 pr-10 text-left text-sm ${
+                              activeIndex === index
+                                ? "bg-gray-100"
+                                : "hover:bg-gray-50"
+                            }`}
+                          >
+                            <ClockIcon className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+                            <span className="truncate">{entry.search.q}</span>
+                            {description && (
+                              <span className="ml-2 text-xs text-gray-500 truncate">
+                                {description}
+                              </span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* Suggestions */}
+                  {hasSuggestionQuery &&
+                    (isLoadingSuggestions ? (
+                      <div className="p-4 text-center text-gray-500">
+                        <div className="animate-pulse flex space-x-2">
+                          <div className="h-4 bg-gray-200 rounded flex-1"></div>
+                        </div>
+                      </div>
+                    ) : suggestions.length > 0 ? (
+                      <div
+                        role="group"
+                        aria-label="Suggestions"
+                        className="py-2"
+                      >
+                        {suggestions.map((suggestion, index) => {
+                          const optionIndex = matchingHistory.length + index;
+                          return (
+                            <button
+                              key={index}
+                              id={getOptionId(optionIndex)}
+                              type="button"
+                              role="option"
+                              aria-selected={activeIndex === optionIndex}
+                              tabIndex={-1}
+                              onClick={() =>
+                                handleAutocompleteSelect(suggestion)
+                              }
+                              onMouseEnter={() =>
+                                setActiveOptionIndex(optionIndex)
+                              }
+                              className={`w-full px-4 py-3 text-left text-sm flex items-center ${
+                                activeIndex === optionIndex
+                                  ? "bg-gray-100"
+                                  : "hover:bg-gray-50"
+                              }`}
+                            >
+                              <MagnifyingGlassIcon className="h-4 w-4 mr-2 text-gray-400" />
+                              {suggestion}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <div className="p-4 text-center text-gray-500">
+                        No suggestions found
+                      </div>
+                    ))}
                 </div>
+
+                {/* A listbox may only hold options, so the remove buttons sit
+                    over the history rows instead of inside them */}
+                {matchingHistory.map((entry, index) => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    tabIndex={-1}
+                    onClick={() => deleteHistoryEntry.mutate(entry.id)}
+                    onMouseEnter={() => setActiveOptionIndex(index)}
+                    style={{ top: index * HISTORY_ROW_HEIGHT }}
+                    className={`absolute right-2 h-9 px-1 flex items-center text-gray-400 hover:text-gray-600 focus:opacity-100 ${
+                      activeIndex === index ? "opacity-100" : "opacity-0"
+                    }`}
+                    aria-label={`Remove "${entry.search.q}" from history`}
+                  >
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                ))}
               </div>
-            ) : null}
+            </div>
           </div>
         )}
       </form>
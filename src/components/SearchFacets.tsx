@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { Check } from "lucide-react";
+import type { SearchFacet, SearchFacetField } from "../types/api";
+import type { SearchFacetSelection } from "../types/search";
+import { cn } from "../lib/utils";
+
+interface SearchFacetsProps {
+  facets: SearchFacet[];
+  selection: SearchFacetSelection;
+  onSelectionChange: (selection: SearchFacetSelection) => void;
+  // Backend counts over every match rather than the results shown
+  isServerTotals?: boolean;
+  className?: string;
+}
+
+// Buckets shown per facet before "Show more"
+const COLLAPSED_BUCKET_COUNT = 6;
+
+const FacetSection: React.FC<{
+  facet: SearchFacet;
+  selected: string[];
+  onToggle: (value: string) => void;
+  onClear: () => void;
+}> = ({ facet, selected, onToggle, onClear }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const buckets = isExpanded
+    ? facet.buckets
+    : facet.buckets.slice(0, COLLAPSED_BUCKET_COUNT);
+  const hiddenCount = facet.buckets.length - buckets.length;
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+          {facet.label}
+        </h3>
+        {selected.length > 0 && (
+          <button
+            onClick={onClear}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <ul className="space-y-0.5">
+        {buckets.map((bucket) => {
+          const isSelected = selected.includes(bucket.value);
+          return (
+            <li key={bucket.value}>
+              <button
+                onClick={() => onToggle(bucket.value)}
+                className={cn(
+                  "flex items-center w-full px-2 py-1 text-sm rounded-md transition-colors",
+                  isSelected
+                    ? "bg-blue-50 text-blue-700"
+                    : "text-gray-700 hover:bg-gray-100",
+                  bucket.count === 0 && !isSelected && "opacity-50"
+                )}
+                aria-pressed={isSelected}
+              >
+                <span
+                  className={cn(
+                    "flex items-center justify-center w-4 h-4 mr-2 flex-shrink-0 border rounded",
+                    isSelected
+                      ? "bg-blue-600 border-blue-600 text-white"
+                      : "border-gray-300 bg-white"
+                  )}
+                >
+                  {isSelected && <Check className="w-3 h-3" />}
+                </span>
+                <span
+                  className="flex-1 text-left truncate"
+                  title={bucket.label}
+                >
+                  {bucket.label}
+                </span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {bucket.count}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {facet.buckets.length > COLLAPSED_BUCKET_COUNT && (
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="mt-1 px-2 text-xs text-blue-600 hover:text-blue-800"
+        >
+          {isExpanded ? "Show less" : `Show ${hiddenCount} more`}
+        </button>
+      )}
+    </section>
+  );
+};
+
+// Sidebar of result facets; selecting values narrows the results list
+const SearchFacets: React.FC<SearchFacetsProps> = ({
+  facets,
+  selection,
+  onSelectionChange,
+  isServerTotals,
+  className,
+}) => {
+  const visibleFacets = facets.filter((facet) => facet.buckets.length > 0);
+  if (visibleFacets.length === 0) return null;
+
+  const updateField = (field: SearchFacetField, values: string[]) => {
+    onSelectionChange({
+      ...selection,
+      [field]: values.length > 0 ? values : undefined,
+    });
+  };
+
+  const toggleValue = (field: SearchFacetField, value: string) => {
+    const selected = selection[field] || [];
+    updateField(
+      field,
+      selected.includes(value)
+        ? selected.filter((item) => item !== value)
+        : [...selected, value]
+    );
+  };
+
+  return (
+    <aside className={cn("space-y-6 p-4", className)}>
+      <p className="text-xs text-gray-500">
+        {isServerTotals
+          ? "Counts cover all matches, including results not loaded yet"
+          : "Counts cover the results shown"}
+      </p>
+      {visibleFacets.map((facet) => (
+        <FacetSection
+          key={facet.field}
+          facet={facet}
+          selected={selection[facet.field] || []}
+          onToggle={(value) => toggleValue(facet.field, value)}
+          onClear={() => updateField(facet.field, [])}
+        />
+      ))}
+    </aside>
+  );
+};
+
+export default SearchFacets;
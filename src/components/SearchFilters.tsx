@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from "react";
+import { CheckIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { useIndexedDocuments, useSearchStats } from "../hooks/useApi";
+import { countActiveFilters } from "../lib/searchFilters";
+import type { SearchFilters } from "../types/search";
+
+interface SearchFilterPanelProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  className?: string;
+}
+
+interface FilterChipsProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  className?: string;
+}
+
+// Enough documents for the picker; the list is narrowed by name below
+const DOCUMENT_PICKER_LIMIT = 100;
+const FALLBACK_THRESHOLD = 0.7;
+
+const toggleValue = (values: string[] = [], value: string): string[] =>
+  values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+
+// Empty lists mean "no filter", so they are dropped from the URL
+const emptyToUndefined = (values: string[]): string[] | undefined =>
+  values.length > 0 ? values : undefined;
+
+const formatDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const getDateRangeLabel = ({ dateFrom, dateTo }: SearchFilters): string => {
+  if (dateFrom && dateTo) {
+    return `Indexed ${formatDate(dateFrom)} – ${formatDate(dateTo)}`;
+  }
+  return dateFrom
+    ? `Indexed after ${formatDate(dateFrom)}`
+    : `Indexed before ${formatDate(dateTo || "")}`;
+};
+
+const useDocumentTitles = () => {
+  const { data, isLoading } = useIndexedDocuments(DOCUMENT_PICKER_LIMIT);
+  const documents = useMemo(() => data?.documents || [], [data]);
+  const titles = useMemo(
+    () => new Map(documents.map((doc) => [doc.id, doc.title])),
+    [documents]
+  );
+  return { documents, titles, isLoading };
+};
+
+const SearchFilterPanel: React.FC<SearchFilterPanelProps> = ({
+  filters,
+  onChange,
+  className,
+}) => {
+  const [documentQuery, setDocumentQuery] = useState("");
+  // Slider position while it is dragged; committed on release so every tick
+  // doesn't start a new search
+  const [draftThreshold, setDraftThreshold] = useState<number | null>(null);
+
+  const { data: statsData } = useSearchStats();
+  const fileTypes = statsData?.search?.supportedFileTypes || [];
+  const defaultThreshold =
+    statsData?.search?.defaultThreshold ?? FALLBACK_THRESHOLD;
+  const threshold = draftThreshold ?? filters.threshold ?? defaultThreshold;
+
+  const { documents, isLoading: isLoadingDocuments } = useDocumentTitles();
+  const matchingDocuments = useMemo(() => {
+    const query = documentQuery.trim().toLowerCase();
+    return query
+      ? documents.filter((doc) => doc.title.toLowerCase().includes(query))
+      : documents;
+  }, [documents, documentQuery]);
+
+  const update = (changes: Partial<SearchFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const commitThreshold = () => {
+    if (draftThreshold === null) return;
+    setDraftThreshold(null);
+    update({ threshold: draftThreshold });
+  };
+
+  return (
+    <div
+      className={`grid grid-cols-1 gap-4 rounded-lg border border-gray-200 bg-gray-50 p-4 md:grid-cols-2 ${className || ""}`}
+    >
+      {/* File types */}
+      <fieldset>
+        <legend className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-500">
+          File type
+        </legend>
+        {fileTypes.length === 0 ? (
+          <p className="text-sm text-gray-500">No file types available</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {fileTypes.map((type) => {
+              const isSelected = !!filters.fileTypes?.includes(type);
+              return (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() =>
+                    update({
+                      fileTypes: emptyToUndefined(
+                        toggleValue(filters.fileTypes, type)
+                      ),
+                    })
+                  }
+                  className={`flex items-center rounded-full border px-3 py-1 text-xs transition-colors ${
+                    isSelected
+                      ? "border-blue-300 bg-blue-100 text-blue-800"
+                      : "border-gray-300 bg-white text-gray-700 hover:bg-gray-100"
+                  }`}
+                  aria-pressed={isSelected}
+                >
+                  {isSelected && <CheckIcon className="mr-1 h-3 w-3" />}
+                  {type}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </fieldset>
+
+      {/* Similarity threshold */}
+      <div>
+        <div className="mb-2 flex items-center justify-between">
+          <label
+            htmlFor="search-filter-threshold"
+            className="text-xs font-medium uppercase tracking-wide text-gray-500"
+          >
+            Minimum similarity
+          </label>
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="font-medium text-gray-900">
+              {Math.round(threshold * 100)}%
+            </span>
+            {filters.threshold !== undefined && draftThreshold === null && (
+              <button
+                type="button"
+                onClick={() => update({ threshold: undefined })}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+        <input
+          id="search-filter-threshold"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={threshold}
+          onChange={(e) => setDraftThreshold(Number(e.target.value))}
+          onPointerUp={commitThreshold}
+          onKeyUp={commitThreshold}
+          onBlur={commitThreshold}
+          className="w-full accent-blue-600"
+        />
+      </div>
+
+      {/* Date indexed */}
+      <fieldset>
+        <legend className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-500">
+          Date indexed
+        </legend>
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            value={filters.dateFrom || ""}
+            max={filters.dateTo}
+            onChange={(e) => update({ dateFrom: e.target.value || undefined })}
+            className="flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            aria-label="Indexed from"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={filters.dateTo || ""}
+            min={filters.dateFrom}
+            onChange={(e) => update({ dateTo: e.target.value || undefined })}
+            className="flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            aria-label="Indexed to"
+          />
+        </div>
+      </fieldset>
+
+      {/* Documents */}
+      <fieldset>
+        <legend className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-500">
+          Documents
+        </legend>
+        <input
+          type="text"
+          value={documentQuery}
+          onChange={(e) => setDocumentQuery(e.target.value)}
+          placeholder="Find a document..."
+          className="mb-2 w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <ul className="max-h-32 overflow-y-auto rounded-md border border-gray-200 bg-white">
+          {isLoadingDocuments ? (
+            <li className="px-3 py-2 text-sm text-gray-500">
+              Loading documents...
+            </li>
+          ) : matchingDocuments.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-500">
+              No matching documents
+            </li>
+          ) : (
+            matchingDocuments.map((doc) => (
+              <li key={doc.id}>
+                <label className="flex cursor-pointer items-center space-x-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={!!filters.documentIds?.includes(doc.id)}
+                    onChange={() =>
+                      update({
+                        documentIds: emptyToUndefined(
+                          toggleValue(filters.documentIds, doc.id)
+                        ),
+                      })
+                    }
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="truncate">{doc.title}</span>
+                </label>
+              </li>
+            ))
+          )}
+        </ul>
+      </fieldset>
+    </div>
+  );
+};
+
+const FilterChip: React.FC<{ label: string; onRemove: () => void }> = ({
+  label,
+  onRemove,
+}) => (
+  <span className="inline-flex items-center rounded-full bg-blue-100 py-1 pl-3 pr-1 text-xs text-blue-800">
+    <span className="max-w-[12rem] truncate">{label}</span>
+    <button
+      type="button"
+      onClick={onRemove}
+      className="ml-1 rounded-full p-0.5 hover:bg-blue-200"
+      aria-label={`Remove filter: ${label}`}
+    >
+      <XMarkIcon className="h-3 w-3" />
+    </button>
+  </span>
+);
+
+// Active filters as removable chips
+export const FilterChips: React.FC<FilterChipsProps> = ({
+  filters,
+  onChange,
+  className,
+}) => {
+  const { titles } = useDocumentTitles();
+
+  if (countActiveFilters(filters) === 0) return null;
+
+  const update = (changes: Partial<SearchFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className || ""}`}>
+      {filters.fileTypes?.map((type) => (
+        <FilterChip
+          key={`type-${type}`}
+          label={`Type: ${type}`}
+          onRemove={() =>
+            update({
+              fileTypes: emptyToUndefined(toggleValue(filters.fileTypes, type)),
+            })
+          }
+        />
+      ))}
+      {filters.threshold !== undefined && (
+        <FilterChip
+          label={`Similarity ≥ ${Math.round(filters.threshold * 100)}%`}
+          onRemove={() => update({ threshold: undefined })}
+        />
+      )}
+      {(filters.dateFrom || filters.dateTo) && (
+        <FilterChip
+          label={getDateRangeLabel(filters)}
+          onRemove={() => update({ dateFrom: undefined, dateTo: undefined })}
+        />
+      )}
+      {filters.documentIds?.map((id) => (
+        <FilterChip
+          key={`doc-${id}`}
+          label={`Document: ${titles.get(id) || id}`}
+          onRemove={() =>
+            update({
+              documentIds: emptyToUndefined(
+                toggleValue(filters.documentIds, id)
+              ),
+            })
+          }
+        />
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange({})}
+        className="text-xs text-gray-500 hover:text-gray-700"
+      >
+        Clear all
+      </button>
+    </div>
+  );
+};
+
+export default SearchFilterPanel;
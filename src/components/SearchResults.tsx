@@ -1,39 +1,32 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ChevronDownIcon, ChevronRightIcon, DocumentIcon, EyeIcon } from '@heroicons/react/24/outline';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-
-interface SearchResultSnippet {
-  id: string;
-  chunkIndex: number;
-  text: string;
-  preview: string;
-  metadata: {
-    createdAt?: string;
-    [key: string]: any;
-  };
-}
-
-interface SearchResultDocument {
-  fileName: string;
-  fileType: string;
-  size: number;
-  totalChunks: number;
-}
-
-interface SearchResultItem {
-  documentId: string;
-  document: SearchResultDocument;
-  snippets: SearchResultSnippet[];
-}
+import { ResultsListSkeleton } from './LoadingSkeletons';
+import HighlightedText from './HighlightedText';
+import type { SearchResult } from '@/types/api';
+import type {
+  SearchResultItem,
+  SearchResultDocument,
+  SearchResultSnippet,
+} from '@/types/search';
 
 interface SearchResultsProps {
   results: SearchResultItem[];
   searchQuery?: string;
+  onResultClick?: (result: SearchResult) => void;
+  isLoading?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  // Document card highlighted by keyboard navigation
+  activeIndex?: number;
 }
 
+// Chunks shown on a document card before "View all"
+const TOP_CHUNK_COUNT = 3;
+
 const getFileTypeIcon = (fileType: string) => {
   const type = fileType.toLowerCase();
   if (type.includes('pdf')) return '📄';
@@ -62,39 +55,33 @@ const formatFileSize = (bytes: number) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
-const highlightText = (text: string, query?: string) => {
-  if (!query) return text;
-  
-  const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-  const parts = text.split(regex);
-  
-  return (
-    <span>
-      {parts.map((part, index) => 
-        regex.test(part) ? (
-          <mark key={index} className="bg-yellow-200 px-1 rounded">
-            {part}
-          </mark>
-        ) : (
-          part
-        )
-      )}
-    </span>
-  );
-};
+const formatScore = (score?: number) =>
+  score !== undefined ? `${Math.round(score * 100)}% match` : null;
 
 const DocumentCard: React.FC<{
   item: SearchResultItem;
   searchQuery?: string;
-}> = ({ item, searchQuery }) => {
+  onResultClick?: (result: SearchResult) => void;
+  isActive?: boolean;
+}> = ({ item, searchQuery, onResultClick, isActive = false }) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [selectedSnippet, setSelectedSnippet] = useState<SearchResultSnippet | null>(null);
-  
-  const topSnippet = item.snippets[0];
+
   const matchCount = item.snippets.length;
-  
+  const visibleSnippets = isExpanded
+    ? item.snippets
+    : item.snippets.slice(0, TOP_CHUNK_COUNT);
+  const hiddenCount = matchCount - visibleSnippets.length;
+  const bestScore = formatScore(item.bestScore);
+
+  const openSnippet = (snippet: SearchResultSnippet) => {
+    if (snippet.result) onResultClick?.(snippet.result);
+  };
+
   return (
-    <Card className="mb-4 hover:shadow-md transition-shadow">
+    <Card
+      className={`mb-4 hover:shadow-md transition-shadow ${isActive ? 'ring-2 ring-blue-500' : ''}`}
+      aria-current={isActive || undefined}
+    >
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
           <div className="flex items-start space-x-3 flex-1">
@@ -102,68 +89,86 @@ const DocumentCard: React.FC<{
             <div className="flex-1 min-w-0">
               <div className="flex items-center space-x-2 mb-2">
                 <h3 className="text-lg font-semibold text-gray-900 truncate">
-                  {item.document.fileName}
+                  <button
+                    type="button"
+                    onClick={() => openSnippet(item.snippets[0])}
+                    className="hover:text-blue-600 transition-colors truncate"
+                  >
+                    {item.document.fileName}
+                  </button>
                 </h3>
-                <Badge className={getFileTypeBadgeColor(item.document.fileType)}>
-                  {item.document.fileType.toUpperCase()}
-                </Badge>
+                {item.document.fileType && (
+                  <Badge className={getFileTypeBadgeColor(item.document.fileType)}>
+                    {item.document.fileType.toUpperCase()}
+                  </Badge>
+                )}
               </div>
-              
-              <div className="flex items-center space-x-4 text-sm text-gray-600 mb-2">
+
+              <div className="flex items-center space-x-4 text-sm text-gray-600">
+                {bestScore && (
+                  <span className="font-medium text-gray-900">Best: {bestScore}</span>
+                )}
                 <span>{matchCount} match{matchCount !== 1 ? 'es' : ''}</span>
-                <span>{formatFileSize(item.document.size)}</span>
-                <span>{item.document.totalChunks} chunks</span>
+                {item.document.folderName && <span>{item.document.folderName}</span>}
+                {item.document.size !== undefined && (
+                  <span>{formatFileSize(item.document.size)}</span>
+                )}
+                {item.document.totalChunks !== undefined && (
+                  <span>{item.document.totalChunks} chunks</span>
+                )}
               </div>
-              
-              {topSnippet && (
-                <div className="text-sm text-gray-700">
-                  <span className="font-medium">Top match: </span>
-                  {highlightText(
-                    topSnippet.preview.length > 200 
-                      ? topSnippet.preview.substring(0, 200) + '...' 
-                      : topSnippet.preview,
-                    searchQuery
-                  )}
-                </div>
-              )}
             </div>
           </div>
-          
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setIsExpanded(!isExpanded)}
-            className="ml-2 flex-shrink-0"
-          >
-            {isExpanded ? (
-              <ChevronDownIcon className="h-4 w-4" />
-            ) : (
-              <ChevronRightIcon className="h-4 w-4" />
-            )}
-            <span className="ml-1">View all</span>
-          </Button>
+
+          {hiddenCount > 0 || isExpanded ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="ml-2 flex-shrink-0"
+            >
+              {isExpanded ? (
+                <ChevronDownIcon className="h-4 w-4" />
+              ) : (
+                <ChevronRightIcon className="h-4 w-4" />
+              )}
+              <span className="ml-1">
+                {isExpanded ? 'Top matches' : `View all ${matchCount}`}
+              </span>
+            </Button>
+          ) : null}
         </div>
       </CardHeader>
-      
-      {isExpanded && (
-        <CardContent className="pt-0">
-          <div className="border-t pt-4">
-            <h4 className="font-medium text-gray-900 mb-3">All matching chunks:</h4>
-            <div className="space-y-3">
-              {item.snippets.map((snippet, index) => (
-                <div key={snippet.id} className="border rounded-lg p-3 bg-gray-50">
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center space-x-2">
-                      <Badge variant="outline" className="text-xs">
-                        Chunk {snippet.chunkIndex}
-                      </Badge>
-                      {snippet.metadata.createdAt && (
-                        <span className="text-xs text-gray-500">
-                          {new Date(snippet.metadata.createdAt).toLocaleDateString()}
-                        </span>
-                      )}
-                    </div>
-                    
+
+      <CardContent className="pt-0">
+        <div className="border-t pt-4">
+          <div className="space-y-3">
+            {visibleSnippets.map((snippet) => (
+              <div key={snippet.id} className="border rounded-lg p-3 bg-gray-50">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className="text-xs">
+                      Chunk {snippet.chunkIndex + 1}
+                    </Badge>
+                    {formatScore(snippet.score) && (
+                      <span className="text-xs text-gray-500">
+                        {formatScore(snippet.score)}
+                      </span>
+                    )}
+                    {snippet.metadata.createdAt && (
+                      <span className="text-xs text-gray-500">
+                        {new Date(snippet.metadata.createdAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    {snippet.result && onResultClick && (
+                      <Button variant="outline" size="sm" onClick={() => openSnippet(snippet)}>
+                        <DocumentIcon className="h-4 w-4 mr-1" />
+                        Open
+                      </Button>
+                    )}
                     <Dialog>
                       <DialogTrigger asChild>
                         <Button variant="outline" size="sm">
@@ -174,39 +179,72 @@ const DocumentCard: React.FC<{
                       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
                         <DialogHeader>
                           <DialogTitle>
-                            {item.document.fileName} - Chunk {snippet.chunkIndex}
+                            {item.document.fileName} - Chunk {snippet.chunkIndex + 1}
                           </DialogTitle>
                         </DialogHeader>
                         <div className="mt-4">
                           <div className="bg-gray-50 p-4 rounded-lg">
                             <div className="whitespace-pre-wrap text-sm">
-                              {highlightText(snippet.text, searchQuery)}
+                              <HighlightedText
+                                text={snippet.text}
+                                query={searchQuery}
+                                ranges={snippet.highlights}
+                              />
                             </div>
                           </div>
                         </div>
                       </DialogContent>
                     </Dialog>
                   </div>
-                  
-                  <div className="text-sm text-gray-700">
-                    {highlightText(
-                      snippet.preview.length > 300 
-                        ? snippet.preview.substring(0, 300) + '...' 
-                        : snippet.preview,
-                      searchQuery
-                    )}
-                  </div>
                 </div>
-              ))}
-            </div>
+
+                <div className="text-sm text-gray-700">
+                  <HighlightedText
+                    text={
+                      snippet.preview.length > 300
+                        ? snippet.preview.substring(0, 300) + '...'
+                        : snippet.preview
+                    }
+                    query={searchQuery}
+                    ranges={
+                      snippet.preview === snippet.text
+                        ? snippet.highlights
+                        : undefined
+                    }
+                  />
+                </div>
+              </div>
+            ))}
           </div>
-        </CardContent>
-      )}
+        </div>
+      </CardContent>
     </Card>
   );
 };
 
-const SearchResults: React.FC<SearchResultsProps> = ({ results, searchQuery }) => {
+const SearchResults: React.FC<SearchResultsProps> = ({
+  results,
+  searchQuery,
+  onResultClick,
+  isLoading = false,
+  hasMore = false,
+  onLoadMore,
+  activeIndex = -1,
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the keyboard-selected document in view
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    listRef.current
+      ?.querySelector(`[data-result-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (isLoading && (!results || results.length === 0)) {
+    return <ResultsListSkeleton />;
+  }
+
   if (!results || results.length === 0) {
     return (
       <div className="text-center py-12">
@@ -216,12 +254,9 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results, searchQuery }) =
       </div>
     );
   }
-  
-  // Sort documents by number of matches (relevance)
-  const sortedResults = [...results].sort((a, b) => b.snippets.length - a.snippets.length);
-  
+
   return (
-    <div className="space-y-4">
+    <div ref={listRef} className="space-y-4">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-xl font-semibold text-gray-900">
           Search Results ({results.length} document{results.length !== 1 ? 's' : ''})
@@ -232,18 +267,30 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results, searchQuery }) =
           </div>
         )}
       </div>
-      
-      {sortedResults.map((item) => (
-        <DocumentCard
-          key={item.documentId}
-          item={item}
-          searchQuery={searchQuery}
-        />
+
+      {/* Documents arrive ordered by their best match */}
+      {results.map((item, index) => (
+        <div key={item.documentId} data-result-index={index}>
+          <DocumentCard
+            item={item}
+            searchQuery={searchQuery}
+            onResultClick={onResultClick}
+            isActive={activeIndex === index}
+          />
+        </div>
       ))}
+
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center py-4">
+          <Button variant="outline" onClick={onLoadMore} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Load more results'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
 
 export default SearchResults;
 export { SearchResults };
-export type { SearchResultItem, SearchResultDocument, SearchResultSnippet };
\ No newline at end of file
+export type { SearchResultItem, SearchResultDocument, SearchResultSnippet };
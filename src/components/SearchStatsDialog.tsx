@@ -0,0 +1,110 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { useSearchStats } from "../hooks/useApi";
+
+interface SearchStatsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)}MB`
+    : `${Math.round(bytes / 1024)}KB`;
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({
+  label,
+  value,
+}) => (
+  // The value reads first, but the term has to come first in the markup
+  <div className="flex flex-col-reverse rounded-md bg-gray-50 px-3 py-2">
+    <dt className="text-xs text-gray-500">{label}</dt>
+    <dd className="text-lg font-semibold text-gray-900">{value}</dd>
+  </div>
+);
+
+// Index and search configuration numbers, opened from the command palette
+const SearchStatsDialog: React.FC<SearchStatsDialogProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { data, isLoading, error } = useSearchStats({ enabled: isOpen });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg bg-white">
+        <DialogHeader>
+          <DialogTitle>Search statistics</DialogTitle>
+          <DialogDescription>
+            What is indexed and how search is configured.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="animate-pulse grid grid-cols-2 gap-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-14 bg-gray-200 rounded-md" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">Failed to load statistics</p>
+        ) : data ? (
+          <div className="space-y-4">
+            <section>
+              <h3 className="mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                Storage
+              </h3>
+              <dl className="grid grid-cols-2 gap-3">
+                <Stat
+                  label="Documents"
+                  value={data.storage?.documentCount || 0}
+                />
+                <Stat
+                  label="Embeddings"
+                  value={data.storage?.embeddingCount || 0}
+                />
+                <Stat
+                  label="Total size"
+                  value={formatSize(data.storage?.totalSize || 0)}
+                />
+                <Stat
+                  label="Avg chunks/doc"
+                  value={(data.storage?.averageChunksPerDocument || 0).toFixed(
+                    1
+                  )}
+                />
+              </dl>
+            </section>
+            <section>
+              <h3 className="mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                Search configuration
+              </h3>
+              <dl className="grid grid-cols-2 gap-3">
+                <Stat
+                  label="Default threshold"
+                  value={data.search?.defaultThreshold ?? "—"}
+                />
+                <Stat
+                  label="Max results"
+                  value={data.search?.maxResults ?? "—"}
+                />
+              </dl>
+              {!!data.search?.supportedFileTypes?.length && (
+                <p className="mt-3 text-sm text-gray-600">
+                  File types: {data.search.supportedFileTypes.join(", ")}
+                </p>
+              )}
+            </section>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchStatsDialog;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   ChevronRightIcon,
   ChevronDownIcon,
@@ -9,431 +9,499 @@ import {
   CheckIcon,
   ExclamationTriangleIcon,
   Cog6ToothIcon,
+  ScaleIcon,
+  ArrowPathIcon,
+  ArrowTopRightOnSquareIcon,
+  ChatBubbleLeftRightIcon,
+  EyeIcon,
+  TrashIcon,
 } from "@heroicons/react/24/outline";
-import { useQuery } from "@tanstack/react-query";
-import { apiService } from "../services/api";
-import { useIndexDocument, useBatchIndexDocuments } from "../hooks/useApi";
-import type {
-  FoldersResponse,
-  DocumentListResponse,
-  DocumentDetails,
-} from "../types/api";
+import {
+  useAllIndexedDocuments,
+  useBatchRemoveDocumentsFromIndex,
+  useRemoveDocumentFromIndex,
+} from "../hooks/useApi";
+import { useIndexingDocumentIds } from "../hooks/useIndexingQueue";
+import { useFolderTree } from "../hooks/useFolderTree";
+import { getDocumentName } from "../lib/documents";
+import type { FolderTreeRow } from "../lib/folderTree";
+import {
+  countIndexStatuses,
+  describeIndexStatusCounts,
+  getIndexStatus,
+} from "../lib/indexStatus";
+import {
+  readExpandedFolders,
+  readScrollTop,
+  writeExpandedFolders,
+  writeScrollTop,
+} from "../lib/sidebarState";
+import ConfirmDialog from "./ConfirmDialog";
+import DocumentActionsMenu from "./DocumentActionsMenu";
+import IndexStatusBadge from "./IndexStatusBadge";
+import VirtualList from "./VirtualList";
+import { indexingQueue } from "../services/indexingQueue";
+import type { DocumentDetails } from "../types/api";
+import {
+  MIN_COMPARISON_DOCUMENTS,
+  MAX_COMPARISON_DOCUMENTS,
+  type ComparisonDocument,
+} from "../types/comparison";
 import { Loader2, Plus } from "lucide-react";
 
-interface FolderNode {
-  id: string;
-  name: string;
-  parentId?: string;
-  totalFiles: number;
-  children?: FolderNode[];
-  documents?: DocumentDetails[];
-  isExpanded?: boolean;
-  isLoading?: boolean;
-}
+// Tree rows have a fixed height so only the visible ones need rendering
+const TREE_ROW_HEIGHT = 32;
 
 interface SidebarProps {
   selectedFolderId?: string;
   selectedDocumentId?: string;
   onFolderSelect: (folderId: string) => void;
   onDocumentSelect: (documentId: string, document: DocumentDetails) => void;
+  onCompareDocuments?: (documents: ComparisonDocument[]) => void;
+  onPreviewDocument?: (documentId: string) => void;
+  // Starts a conversation scoped to the document
+  onAskAboutDocument?: (documentId: string) => void;
 }
 
-const updateFolderState = (
-  folders: FolderNode[],
-  folderId: string,
-  updates: Partial<FolderNode>
-): FolderNode[] => {
-  return folders.map((folder) => {
-    if (folder.id === folderId) {
-      return { ...folder, ...updates };
-    }
-    if (folder.children) {
-      return {
-        ...folder,
-        children: updateFolderState(folder.children, folderId, updates),
-      };
-    }
-    return folder;
-  });
-};
+// Documents picked for removal from the index, awaiting confirmation
+interface PendingRemoval {
+  documentIds: string[];
+  label: string;
+}
 
 export const Sidebar: React.FC<SidebarProps> = ({
   selectedFolderId,
   selectedDocumentId,
   onFolderSelect,
   onDocumentSelect,
+  onCompareDocuments,
+  onPreviewDocument,
+  onAskAboutDocument,
 }) => {
-  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(
-    new Set()
-  );
-  const [folderTree, setFolderTree] = useState<FolderNode[]>([]);
+  const [expandedFolders, setExpandedFolders] =
+    useState<Set<string>>(readExpandedFolders);
   const [searchQuery, setSearchQuery] = useState("");
-  const [indexingDocuments, setIndexingDocuments] = useState<Set<string>>(
-    new Set()
-  );
-  const [indexedDocuments, setIndexedDocuments] = useState<Set<string>>(
-    new Set()
-  );
-  const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(
-    new Set()
-  );
+  // Kept by id with the document itself, so picks in folders that get
+  // collapsed can still be named and opened
+  const [selectedDocuments, setSelectedDocuments] = useState<
+    Map<string, DocumentDetails>
+  >(new Map());
   const [showBulkActions, setShowBulkActions] = useState(false);
+  const [actionsMenuDocumentId, setActionsMenuDocumentId] = useState<
+    string | null
+  >(null);
+  const [pendingRemoval, setPendingRemoval] = useState<PendingRemoval | null>(
+    null
+  );
+  const [removalError, setRemovalError] = useState<string>();
 
-  // Fetch root folders
+  // Root folders up front, each expanded folder's contents on demand
   const {
-    data: foldersData,
-    isLoading: foldersLoading,
-    error: foldersError,
-  } = useQuery({
-    queryKey: ["folders"],
-    queryFn: () => apiService.getFolders(),
-    staleTime: 5 * 60 * 1000, // 5 minutes
-  });
-
-  // Index document mutation
-  const indexDocumentMutation = useIndexDocument({
-    onMutate: ({ documentId }) => {
-      setIndexingDocuments((prev) => new Set(prev).add(documentId));
-    },
-    onSuccess: (data, { documentId }) => {
-      setIndexingDocuments((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(documentId);
-        return newSet;
-      });
-      setIndexedDocuments((prev) => new Set(prev).add(documentId));
-      // Clear success state after 3 seconds
-      setTimeout(() => {
-        setIndexedDocuments((prev) => {
-          const newSet = new Set(prev);
-          newSet.delete(documentId);
-          return newSet;
-        });
-      }, 3000);
-    },
-    onError: (error, { documentId }) => {
-      setIndexingDocuments((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(documentId);
-        return newSet;
-      });
-      console.error("Failed to index document:", error);
-    },
-  });
+    rows,
+    rootQuery,
+    getDocuments,
+    loadMoreDocuments,
+    retryFolder,
+    refreshFolder,
+  } = useFolderTree(expandedFolders, searchQuery);
+
+  // Documents waiting in or being sent by the indexing queue
+  const indexingDocuments = useIndexingDocumentIds();
+
+  // What the index holds, to badge every document in the tree
+  const { data: indexedDocuments } = useAllIndexedDocuments();
+  const indexedDocumentsById = useMemo(
+    () =>
+      indexedDocuments &&
+      new Map(indexedDocuments.map((document) => [document.id, document])),
+    [indexedDocuments]
+  );
 
-  // Batch index mutation
-  const batchIndexMutation = useBatchIndexDocuments({
-    onMutate: ({ documentIds }) => {
-      setIndexingDocuments((prev) => {
-        const newSet = new Set(prev);
-        documentIds.forEach((id) => newSet.add(id));
-        return newSet;
-      });
-    },
-    onSuccess: (data, { documentIds }) => {
-      setIndexingDocuments((prev) => {
-        const newSet = new Set(prev);
-        documentIds.forEach((id) => newSet.delete(id));
-        return newSet;
-      });
-      setIndexedDocuments((prev) => {
-        const newSet = new Set(prev);
-        documentIds.forEach((id) => newSet.add(id));
-        return newSet;
-      });
-      setSelectedDocuments(new Set());
-      // Clear success state after 3 seconds
-      setTimeout(() => {
-        setIndexedDocuments(new Set());
-      }, 3000);
-    },
-    onError: (error, { documentIds }) => {
-      setIndexingDocuments((prev) => {
-        const newSet = new Set(prev);
-        documentIds.forEach((id) => newSet.delete(id));
-        return newSet;
-      });
-      console.error("Failed to batch index documents:", error);
-    },
-  });
+  const getDocumentIndexStatus = (document: DocumentDetails) =>
+    indexedDocumentsById &&
+    getIndexStatus(document, indexedDocumentsById.get(document.id));
+
+  // "12/40 indexed" out of everything in the folder; "12+/40" while pages
+  // that could hold more indexed documents aren't loaded. Stale documents
+  // still count, as they're searchable.
+  const getFolderIndexRollup = (folderId: string) => {
+    const { data: documents, hasMore, total = 0 } = getDocuments(folderId);
+    if (!indexedDocumentsById || !documents?.length) return undefined;
+    const counts = countIndexStatuses(
+      documents.map((document) =>
+        getIndexStatus(document, indexedDocumentsById.get(document.id))
+      )
+    );
+    const documentCount = Math.max(total, documents.length);
+    const unloadedCount = documentCount - documents.length;
+    return {
+      label: `${counts.indexed + counts.stale}${
+        hasMore ? "+" : ""
+      }/${documentCount} indexed`,
+      description: [
+        describeIndexStatusCounts(counts),
+        unloadedCount > 0 && `${unloadedCount} not loaded yet`,
+      ]
+        .filter(Boolean)
+        .join("; "),
+    };
+  };
 
-  // Build folder tree from flat folder list
   useEffect(() => {
-    if (foldersData?.data?.folders) {
-      const folders = foldersData.data.folders;
-      const tree = buildFolderTree(folders);
-      setFolderTree(tree);
-    }
-  }, [foldersData]);
-
-  const buildFolderTree = (
-    folders: Array<{
-      id: string;
-      name: string;
-      parentId?: string;
-      totalFiles: number;
-    }>
-  ): FolderNode[] => {
-    const folderMap = new Map<string, FolderNode>();
-    const rootFolders: FolderNode[] = [];
-
-    // Create folder nodes
-    folders.forEach((folder) => {
-      folderMap.set(folder.id, {
-        ...folder,
-        children: [],
-        isExpanded: false,
-        isLoading: false,
-      });
-    });
+    writeExpandedFolders(expandedFolders);
+  }, [expandedFolders]);
 
-    // Build tree structure
-    folders.forEach((folder) => {
-      const node = folderMap.get(folder.id)!;
-      if (folder.parentId && folderMap.has(folder.parentId)) {
-        const parent = folderMap.get(folder.parentId)!;
-        parent.children!.push(node);
+  const toggleFolder = (folderId: string) => {
+    setExpandedFolders((prev) => {
+      const newSet = new Set(prev);
+      if (newSet.has(folderId)) {
+        newSet.delete(folderId);
       } else {
-        rootFolders.push(node);
+        newSet.add(folderId);
       }
+      return newSet;
     });
-
-    return rootFolders;
-  };
-
-  const toggleFolder = async (folderId: string) => {
-    const isExpanded = expandedFolders.has(folderId);
-
-    if (isExpanded) {
-      setExpandedFolders((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(folderId);
-        return newSet;
-      });
-    } else {
-      setExpandedFolders((prev) => new Set(prev).add(folderId));
-
-      const folder = findFolderInTree(folderTree, folderId);
-      if (folder && !folder.documents) {
-        // mark as loading
-        setFolderTree((prevTree) =>
-          updateFolderState(prevTree, folderId, { isLoading: true })
-        );
-
-        // fetch child content
-        await loadFolderDocuments(folderId);
-      }
-    }
-
     onFolderSelect(folderId);
   };
 
-  const findFolderInTree = (
-    tree: FolderNode[],
-    folderId: string
-  ): FolderNode | null => {
-    for (const folder of tree) {
-      if (folder.id === folderId) return folder;
-      if (folder.children) {
-        const found = findFolderInTree(folder.children, folderId);
-        if (found) return found;
-      }
-    }
-    return null;
-  };
-
-  const loadFolderDocuments = async (folderId: string) => {
-    try {
-      const response = await apiService.getDocuments({ folderId, limit: 100 });
-      console.log("response", response);
-
-      setFolderTree((prevTree) => {
-        const updateFolder = (folders: FolderNode[]): FolderNode[] => {
-          return folders.map((folder) => {
-            if (folder.id === folderId) {
-              return {
-                ...folder,
-                documents: response.data.files,
-                isLoading: false,
-              };
-            }
-            if (folder.children) {
-              return { ...folder, children: updateFolder(folder.children) };
-            }
-            return folder;
-          });
-        };
-        return updateFolder(prevTree);
-      });
-    } catch (error) {
-      console.error("Failed to load folder documents:", error);
-    }
+  const handleRefreshClick = (e: React.MouseEvent, folderId: string) => {
+    e.stopPropagation();
+    refreshFolder(folderId);
   };
 
   const handleDocumentClick = (document: DocumentDetails) => {
     onDocumentSelect(document.id, document);
   };
 
-  const handleIndexClick = (e: React.MouseEvent, documentId: string) => {
+  const handleIndexClick = (e: React.MouseEvent, document: DocumentDetails) => {
     e.stopPropagation();
-    indexDocumentMutation.mutate({ documentId });
+    indexingQueue.enqueue({
+      documentIds: [document.id],
+      label: getDocumentName(document),
+    });
   };
 
-  const handleDocumentSelect = (e: React.MouseEvent, documentId: string) => {
+  const handleDocumentSelect = (
+    e: React.MouseEvent,
+    document: DocumentDetails
+  ) => {
     e.stopPropagation();
     setSelectedDocuments((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(documentId)) {
-        newSet.delete(documentId);
+      const newMap = new Map(prev);
+      if (newMap.has(document.id)) {
+        newMap.delete(document.id);
       } else {
-        newSet.add(documentId);
+        newMap.set(document.id, document);
       }
-      return newSet;
+      return newMap;
     });
   };
 
-  const handleBulkIndex = () => {
-    if (selectedDocuments.size > 0) {
-      batchIndexMutation.mutate({ documentIds: Array.from(selectedDocuments) });
+  const handleReindex = (documentIds: string[], label: string) => {
+    indexingQueue.enqueue({ documentIds, force: true, label });
+  };
+
+  const requestRemoval = (removal: PendingRemoval) => {
+    setRemovalError(undefined);
+    setPendingRemoval(removal);
+  };
+
+  // Removed documents leave the selection, so bulk actions skip them
+  const deselectDocuments = (documentIds: string[]) => {
+    setSelectedDocuments((prev) => {
+      const newMap = new Map(prev);
+      documentIds.forEach((id) => newMap.delete(id));
+      return newMap;
+    });
+  };
+
+  const removeDocumentMutation = useRemoveDocumentFromIndex({
+    onSuccess: (_, documentId) => {
+      deselectDocuments([documentId]);
+      setPendingRemoval(null);
+    },
+    onError: (error) => setRemovalError(error.message),
+  });
+
+  // Documents that couldn't be removed stay pending, so confirming again
+  // retries just those
+  const batchRemoveMutation = useBatchRemoveDocumentsFromIndex({
+    onSuccess: ({ removedIds, failedIds }) => {
+      deselectDocuments(removedIds);
+      if (failedIds.length === 0) {
+        setPendingRemoval(null);
+        return;
+      }
+      setRemovalError(
+        `${failedIds.length} of ${removedIds.length + failedIds.length} documents could not be removed.`
+      );
+      setPendingRemoval((prev) => prev && { ...prev, documentIds: failedIds });
+    },
+    onError: (error) => setRemovalError(error.message),
+  });
+
+  const handleConfirmRemoval = () => {
+    if (!pendingRemoval) return;
+    const { documentIds } = pendingRemoval;
+    if (documentIds.length === 1) {
+      removeDocumentMutation.mutate(documentIds[0]);
+    } else {
+      batchRemoveMutation.mutate(documentIds);
     }
   };
 
-  const handleSelectAll = () => {
-    const allDocuments = new Set<string>();
-    const collectDocuments = (folders: FolderNode[]) => {
-      folders.forEach((folder) => {
-        if (folder.documents) {
-          folder.documents.forEach((doc) => allDocuments.add(doc.id));
-        }
-        if (folder.children) {
-          collectDocuments(folder.children);
-        }
+  const selectedDocumentIds = Array.from(selectedDocuments.keys());
+  // Only what the index holds can be removed, as in the document menu
+  const removableDocuments = Array.from(selectedDocuments.values()).filter(
+    (document) => getDocumentIndexStatus(document) !== "notIndexed"
+  );
+
+  const handleBulkIndex = () => {
+    if (selectedDocuments.size > 0) {
+      indexingQueue.enqueue({
+        documentIds: selectedDocumentIds,
+        label: `${selectedDocuments.size} selected documents`,
       });
-    };
-    collectDocuments(filteredTree);
-    setSelectedDocuments(allDocuments);
+      setSelectedDocuments(new Map());
+    }
   };
 
-  const handleDeselectAll = () => {
-    setSelectedDocuments(new Set());
+  const getSelectedComparisonDocuments = (): ComparisonDocument[] =>
+    Array.from(selectedDocuments.values(), (document) => ({
+      id: document.id,
+      name: getDocumentName(document),
+    }));
+
+  const handleCompare = () => {
+    onCompareDocuments?.(getSelectedComparisonDocuments());
   };
 
-  const filteredTree = searchQuery
-    ? filterTreeBySearch(folderTree, searchQuery.toLowerCase())
-    : folderTree;
-
-  const filterTreeBySearch = (
-    tree: FolderNode[],
-    query: string
-  ): FolderNode[] => {
-    return tree.reduce<FolderNode[]>((acc, folder) => {
-      const folderMatches = folder.name.toLowerCase().includes(query);
-      const filteredChildren = folder.children
-        ? filterTreeBySearch(folder.children, query)
-        : [];
-      const filteredDocuments =
-        folder.documents?.filter((doc) =>
-          doc.title.toLowerCase().includes(query)
-        ) || [];
-
-      if (
-        folderMatches ||
-        filteredChildren.length > 0 ||
-        filteredDocuments.length > 0
-      ) {
-        acc.push({
-          ...folder,
-          children: filteredChildren,
-          documents: filteredDocuments,
-        });
-      }
-      return acc;
-    }, []);
+  const canCompare =
+    selectedDocuments.size >= MIN_COMPARISON_DOCUMENTS &&
+    selectedDocuments.size <= MAX_COMPARISON_DOCUMENTS;
+
+  // Preview, Drive and chat act on one document at a time
+  const singleSelectedDocument =
+    selectedDocuments.size === 1
+      ? Array.from(selectedDocuments.values())[0]
+      : undefined;
+
+  const handleSelectAll = () => {
+    setSelectedDocuments(
+      new Map(
+        rows.flatMap((row) =>
+          row.kind === "document"
+            ? [[row.document.id, row.document] as const]
+            : []
+        )
+      )
+    );
   };
 
-  const renderFolder = (folder: FolderNode, level: number = 0) => {
-    const isExpanded = expandedFolders.has(folder.id);
-    const isSelected = selectedFolderId === folder.id;
-    const hasDocuments = folder.documents && folder.documents.length > 0;
+  const handleDeselectAll = () => {
+    setSelectedDocuments(new Map());
+  };
 
-    return (
-      <div key={folder.id} className="select-none">
-        <div
-          className={`flex items-center px-2 py-1.5 text-sm cursor-pointer hover:bg-gray-100 rounded-md transition-colors ${
-            isSelected ? "bg-blue-50 text-blue-700" : "text-gray-700"
-          }`}
-          style={{ paddingLeft: `${level * 16 + 8}px` }}
-          onClick={() => toggleFolder(folder.id)}
-        >
-          <div className="flex items-center flex-1 min-w-0">
-            {folder.totalFiles > 0 ? (
-              isExpanded ? (
-                <ChevronDownIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+  const renderRow = (row: FolderTreeRow) => {
+    const paddingLeft = `${row.level * 16 + 8}px`;
+
+    switch (row.kind) {
+      case "folder": {
+        const { folder, isExpanded } = row;
+        const isSelected = selectedFolderId === folder.id;
+        const indexRollup = getFolderIndexRollup(folder.id);
+        return (
+          <div
+            key={row.key}
+            className={`flex items-center h-full px-2 text-sm cursor-pointer hover:bg-gray-100 rounded-md transition-colors select-none group ${
+              isSelected ? "bg-blue-50 text-blue-700" : "text-gray-700"
+            }`}
+            style={{ paddingLeft }}
+            onClick={() => toggleFolder(folder.id)}
+            aria-expanded={folder.childCount > 0 ? isExpanded : undefined}
+          >
+            <div className="flex items-center flex-1 min-w-0">
+              {folder.childCount > 0 ? (
+                isExpanded ? (
+                  <ChevronDownIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+                ) : (
+                  <ChevronRightIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+                )
               ) : (
-                <ChevronRightIcon className="h-4 w-4 mr-1 flex-shrink-0" />
-              )
-            ) : (
-              <div className="w-4 mr-1" />
+                <div className="w-4 mr-1" />
+              )}
+              <FolderIcon className="h-4 w-4 mr-2 flex-shrink-0 text-blue-500" />
+              <span className="truncate">{folder.name}</span>
+            </div>
+            {isExpanded && (
+              <button
+                onClick={(e) => handleRefreshClick(e, folder.id)}
+                className="p-0.5 mr-1 rounded text-gray-400 hover:text-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                title="Refresh folder"
+              >
+                <ArrowPathIcon className="h-3.5 w-3.5" />
+              </button>
             )}
-            <FolderIcon className="h-4 w-4 mr-2 flex-shrink-0 text-blue-500" />
-            <span className="truncate">{folder.name}</span>
-          </div>
-          {folder.totalFiles > 0 && (
-            <span className="text-xs text-gray-400 ml-1">
-              ({folder.totalFiles})
-            </span>
-          )}
-        </div>
-
-        {isExpanded && (
-          <div className="ml-4">
-            {/* Render documents */}
-            {hasDocuments && (
-              <div className="mt-1">
-                {folder.documents!.map((document) => (
-                  <div
-                    key={document.id}
-                    className={`flex items-center px-2 py-1.5 text-sm cursor-pointer hover:bg-gray-50 rounded-md transition-colors group ${
-                      selectedDocumentId === document.id
-                        ? "bg-green-50 text-green-700"
-                        : "text-gray-600"
-                    }`}
-                    style={{ paddingLeft: `${(level + 1) * 16 + 8}px` }}
-                    onClick={() => handleDocumentClick(document)}
-                  >
-                    <DocumentTextIcon className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
-                    <span className="truncate flex-1">{document.name}</span>
-
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={(e) => handleIndexClick(e, document.id)}
-                        className="p-1 rounded transition-colors bg-blue-100 text-blue-600"
-                        title="Index document"
-                      >
-                        <Plus className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </div>
-                ))}
-              </div>
+            {indexRollup && (
+              <span
+                className="text-xs text-gray-500 ml-1 whitespace-nowrap"
+                title={indexRollup.description}
+              >
+                {indexRollup.label}
+              </span>
+            )}
+            {folder.childCount > 0 && (
+              <span className="text-xs text-gray-400 ml-1">
+                ({folder.childCount})
+              </span>
             )}
+          </div>
+        );
+      }
 
-            {/* Loading state */}
-            {folder.isLoading && (
-              <div
-                className="px-2 py-1.5 text-xs text-gray-500 flex items-center"
-                style={{ paddingLeft: `${(level + 1) * 16 + 8}px` }}
+      case "document": {
+        const { document } = row;
+        const indexedDocument = indexedDocumentsById?.get(document.id);
+        const indexStatus = getDocumentIndexStatus(document);
+        const isIndexing =
+          indexingDocuments.has(document.id) ||
+          indexedDocument?.status === "processing";
+        return (
+          <div
+            key={row.key}
+            className={`flex items-center h-full px-2 text-sm cursor-pointer hover:bg-gray-50 rounded-md transition-colors group ${
+              selectedDocumentId === document.id
+                ? "bg-green-50 text-green-700"
+                : "text-gray-600"
+            }`}
+            style={{ paddingLeft }}
+            onClick={() => handleDocumentClick(document)}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              setActionsMenuDocumentId(document.id);
+            }}
+          >
+            {showBulkActions && (
+              <button
+                onClick={(e) => handleDocumentSelect(e, document)}
+                className={`flex items-center justify-center h-4 w-4 mr-2 flex-shrink-0 rounded border transition-colors ${
+                  selectedDocuments.has(document.id)
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : "bg-white border-gray-300"
+                }`}
+                title="Select document"
+                aria-pressed={selectedDocuments.has(document.id)}
               >
-                <Loader2 className="h-4 w-4 animate-spin" />
-              </div>
+                {selectedDocuments.has(document.id) && (
+                  <CheckIcon className="h-3 w-3" />
+                )}
+              </button>
             )}
+            <DocumentTextIcon className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+            <span className="truncate flex-1">{getDocumentName(document)}</span>
+
+            <div className="flex items-center space-x-2">
+              {isIndexing ? (
+                <Loader2
+                  className="h-4 w-4 flex-shrink-0 animate-spin text-blue-500"
+                  aria-label="Indexing"
+                />
+              ) : (
+                indexStatus && (
+                  <IndexStatusBadge
+                    status={indexStatus}
+                    detail={indexedDocument?.error}
+                  />
+                )
+              )}
+              <button
+                onClick={(e) => handleIndexClick(e, document)}
+                className="p-0.5 rounded transition-colors bg-blue-100 text-blue-600"
+                title="Index document"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+              <DocumentActionsMenu
+                document={document}
+                isOpen={actionsMenuDocumentId === document.id}
+                onOpenChange={(isOpen) =>
+                  setActionsMenuDocumentId(isOpen ? document.id : null)
+                }
+                onReindex={() =>
+                  handleReindex([document.id], getDocumentName(document))
+                }
+                onRemoveFromIndex={
+                  indexStatus === "notIndexed"
+                    ? undefined
+                    : () =>
+                        requestRemoval({
+                          documentIds: [document.id],
+                          label: getDocumentName(document),
+                        })
+                }
+                onPreview={
+                  onPreviewDocument && (() => onPreviewDocument(document.id))
+                }
+                onAsk={
+                  onAskAboutDocument && (() => onAskAboutDocument(document.id))
+                }
+                className="opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+              />
+            </div>
           </div>
-        )}
-      </div>
-    );
+        );
+      }
+
+      case "loading":
+        return (
+          <div
+            key={row.key}
+            className="h-full px-2 text-xs text-gray-500 flex items-center"
+            style={{ paddingLeft }}
+          >
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        );
+
+      case "loadMore":
+        return (
+          <div
+            key={row.key}
+            className="h-full px-2 flex items-center"
+            style={{ paddingLeft }}
+          >
+            <button
+              onClick={() => loadMoreDocuments(row.folderId)}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              Load more
+            </button>
+          </div>
+        );
+
+      case "error":
+        return (
+          <div
+            key={row.key}
+            className="h-full px-2 text-xs text-red-600 flex items-center"
+            style={{ paddingLeft }}
+          >
+            <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+            <span className="truncate flex-1" title={row.message}>
+              {row.message}
+            </span>
+            <button
+              onClick={() => retryFolder(row.folderId)}
+              className="ml-2 text-blue-600 hover:text-blue-800"
+            >
+              Retry
+            </button>
+          </div>
+        );
+    }
   };
 
-  if (foldersLoading) {
+  if (rootQuery.isPending) {
     return (
       <div className="w-80 bg-white border-r border-gray-200 p-4">
         <div className="animate-pulse">
@@ -448,11 +516,17 @@ export const Sidebar: React.FC<SidebarProps> = ({
     );
   }
 
-  if (foldersError) {
+  if (rootQuery.error) {
     return (
       <div className="w-80 bg-white border-r border-gray-200 p-4">
         <div className="text-red-600 text-sm">
-          Failed to load folders. Please try again.
+          Failed to load folders.{" "}
+          <button
+            onClick={() => rootQuery.refetch()}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Try again
+          </button>
         </div>
       </div>
     );
@@ -464,17 +538,28 @@ export const Sidebar: React.FC<SidebarProps> = ({
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between mb-3">
           <h2 className="text-lg font-semibold text-gray-900">Documents</h2>
-          <button
-            onClick={() => setShowBulkActions(!showBulkActions)}
-            className={`p-1 rounded transition-colors ${
-              showBulkActions
-                ? "bg-blue-100 text-blue-600"
-                : "text-gray-400 hover:text-gray-600"
-            }`}
-            title="Toggle bulk actions"
-          >
-            <Cog6ToothIcon className="h-4 w-4" />
-          </button>
+          <div className="flex items-center space-x-1">
+            {onCompareDocuments && (
+              <button
+                onClick={handleCompare}
+                className="p-1 rounded text-gray-400 hover:text-gray-600 transition-colors"
+                title="Document comparisons"
+              >
+                <ScaleIcon className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              onClick={() => setShowBulkActions(!showBulkActions)}
+              className={`p-1 rounded transition-colors ${
+                showBulkActions
+                  ? "bg-blue-100 text-blue-600"
+                  : "text-gray-400 hover:text-gray-600"
+              }`}
+              title="Toggle bulk actions"
+            >
+              <Cog6ToothIcon className="h-4 w-4" />
+            </button>
+          </div>
         </div>
 
         {/* Bulk Actions */}
@@ -499,23 +584,98 @@ export const Sidebar: React.FC<SidebarProps> = ({
             </div>
             <button
               onClick={handleBulkIndex}
-              disabled={
-                selectedDocuments.size === 0 || batchIndexMutation.isPending
-              }
+              disabled={selectedDocuments.size === 0}
               className="w-full px-3 py-1.5 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center space-x-1"
             >
-              {batchIndexMutation.isPending ? (
-                <>
-                  <Cog6ToothIcon className="h-3 w-3 animate-spin" />
-                  <span>Indexing...</span>
-                </>
-              ) : (
-                <>
-                  <PlusIcon className="h-3 w-3" />
-                  <span>Index Selected ({selectedDocuments.size})</span>
-                </>
-              )}
+              <PlusIcon className="h-3 w-3" />
+              <span>Index Selected ({selectedDocuments.size})</span>
             </button>
+            <div className="flex mt-2 space-x-2">
+              <button
+                onClick={() =>
+                  handleReindex(
+                    selectedDocumentIds,
+                    `${selectedDocuments.size} selected documents`
+                  )
+                }
+                disabled={selectedDocuments.size === 0}
+                className="flex-1 px-2 py-1.5 border border-gray-300 text-gray-700 text-xs rounded hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-transparent disabled:cursor-not-allowed flex items-center justify-center space-x-1"
+                title="Index again even if unchanged"
+              >
+                <ArrowPathIcon className="h-3 w-3" />
+                <span>Re-index</span>
+              </button>
+              <button
+                onClick={() =>
+                  requestRemoval({
+                    documentIds: removableDocuments.map(({ id }) => id),
+                    label:
+                      removableDocuments.length === 1
+                        ? getDocumentName(removableDocuments[0])
+                        : `${removableDocuments.length} indexed documents`,
+                  })
+                }
+                disabled={removableDocuments.length === 0}
+                className="flex-1 px-2 py-1.5 border border-red-300 text-red-600 text-xs rounded hover:bg-red-50 disabled:border-gray-300 disabled:text-gray-400 disabled:hover:bg-transparent disabled:cursor-not-allowed flex items-center justify-center space-x-1"
+              >
+                <TrashIcon className="h-3 w-3" />
+                <span>Remove</span>
+              </button>
+            </div>
+            <div className="flex mt-2 space-x-2">
+              {onPreviewDocument && (
+                <button
+                  onClick={() =>
+                    singleSelectedDocument &&
+                    onPreviewDocument(singleSelectedDocument.id)
+                  }
+                  disabled={!singleSelectedDocument}
+                  className="flex-1 p-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed flex items-center justify-center"
+                  title="Preview (select one document)"
+                >
+                  <EyeIcon className="h-4 w-4" />
+                </button>
+              )}
+              <button
+                onClick={() =>
+                  singleSelectedDocument &&
+                  window.open(
+                    singleSelectedDocument.driveUrl,
+                    "_blank",
+                    "noopener,noreferrer"
+                  )
+                }
+                disabled={!singleSelectedDocument?.driveUrl}
+                className="flex-1 p-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed flex items-center justify-center"
+                title="Open in Drive (select one document)"
+              >
+                <ArrowTopRightOnSquareIcon className="h-4 w-4" />
+              </button>
+              {onAskAboutDocument && (
+                <button
+                  onClick={() =>
+                    singleSelectedDocument &&
+                    onAskAboutDocument(singleSelectedDocument.id)
+                  }
+                  disabled={!singleSelectedDocument}
+                  className="flex-1 p-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed flex items-center justify-center"
+                  title="Ask about this document (select one document)"
+                >
+                  <ChatBubbleLeftRightIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            {onCompareDocuments && (
+              <button
+                onClick={handleCompare}
+                disabled={!canCompare}
+                className="w-full mt-2 px-3 py-1.5 border border-blue-600 text-blue-600 text-xs rounded hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:hover:bg-transparent disabled:cursor-not-allowed flex items-center justify-center space-x-1"
+                title={`Select ${MIN_COMPARISON_DOCUMENTS}–${MAX_COMPARISON_DOCUMENTS} documents to compare`}
+              >
+                <ScaleIcon className="h-3 w-3" />
+                <span>Compare Selected ({selectedDocuments.size})</span>
+              </button>
+            )}
           </div>
         )}
 
@@ -533,24 +693,48 @@ export const Sidebar: React.FC<SidebarProps> = ({
       </div>
 
       {/* Folder Tree */}
-      <div className="flex-1 overflow-y-auto p-2">
-        {filteredTree.length > 0 ? (
-          <div className="space-y-1">
-            {filteredTree.map((folder) => renderFolder(folder))}
-          </div>
-        ) : (
-          <div className="text-center text-gray-500 text-sm mt-8">
-            {searchQuery
-              ? "No matching folders or documents found."
-              : "No folders available."}
-          </div>
-        )}
-      </div>
+      {rows.length > 0 ? (
+        <VirtualList
+          items={rows}
+          rowHeight={TREE_ROW_HEIGHT}
+          getKey={(row) => row.key}
+          renderItem={renderRow}
+          initialScrollTop={readScrollTop()}
+          onScrollTopChange={writeScrollTop}
+          className="flex-1 p-2"
+        />
+      ) : (
+        <div className="flex-1 p-2 text-center text-gray-500 text-sm pt-8">
+          {searchQuery
+            ? "No matching folders or documents found."
+            : "No folders available."}
+        </div>
+      )}
 
       {/* Footer */}
       <div className="p-4 border-t border-gray-200 text-xs text-gray-500">
-        Total: {foldersData?.total || 0} folders
+        Total: {rootQuery.data?.total || 0} folders
       </div>
+
+      <ConfirmDialog
+        isOpen={!!pendingRemoval}
+        title="Remove from index?"
+        description={
+          <>
+            <span className="font-medium">{pendingRemoval?.label}</span> will no
+            longer appear in search results or chat answers. The files stay in
+            Drive and can be indexed again.
+          </>
+        }
+        confirmLabel="Remove"
+        isDestructive
+        isPending={
+          removeDocumentMutation.isPending || batchRemoveMutation.isPending
+        }
+        error={removalError}
+        onConfirm={handleConfirmRemoval}
+        onCancel={() => setPendingRemoval(null)}
+      />
     </div>
   );
 };
@@ -22,12 +22,21 @@ import type { SearchResult } from "../types/api";
 import { cn } from "../lib/utils";
 import { SnippetPreviewSkeleton } from "./LoadingSkeletons";
 import { ErrorDisplay, EmptyState } from "./ErrorBoundary";
+import DocumentSummary from "./DocumentSummary";
+import HighlightedText from "./HighlightedText";
+
+export type SnippetPreviewViewMode = "relevant" | "all" | "search" | "summary";
 
 interface SnippetPreviewProps {
   result: SearchResult | null;
   isOpen: boolean;
   onClose: () => void;
   searchQuery?: string;
+  // Chunk shown "with context"; when provided the preview follows it
+  chunkIndex?: number | null;
+  onChunkIndexChange?: (chunkIndex: number | null) => void;
+  // Tab shown when a document is opened, e.g. "summary" from the palette
+  initialViewMode?: SnippetPreviewViewMode;
   className?: string;
 }
 
@@ -36,14 +45,16 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
   isOpen,
   onClose,
   searchQuery = "",
+  chunkIndex,
+  onChunkIndexChange,
+  initialViewMode = "relevant",
   className,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [activeSnippetIndex, setActiveSnippetIndex] = useState(0);
   const [snippetSearchQuery, setSnippetSearchQuery] = useState("");
-  const [viewMode, setViewMode] = useState<"relevant" | "all" | "search">(
-    "relevant",
-  );
+  const [viewMode, setViewMode] =
+    useState<SnippetPreviewViewMode>(initialViewMode);
   const [selectedChunkIndex, setSelectedChunkIndex] = useState<number | null>(
     null,
   );
@@ -127,10 +138,19 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
       setIsExpanded(false);
       setActiveSnippetIndex(0);
       setSnippetSearchQuery("");
-      setViewMode("relevant");
+      setViewMode(initialViewMode);
       setSelectedChunkIndex(null);
     }
-  }, [result]);
+  }, [result, initialViewMode]);
+
+  // Follow the chunk from the URL, e.g. /doc/:id/chunk/:n
+  useEffect(() => {
+    if (chunkIndex === undefined) return;
+    setSelectedChunkIndex(chunkIndex);
+    if (chunkIndex !== null) {
+      setViewMode("all");
+    }
+  }, [result, chunkIndex]);
 
   // Handle escape key
   useEffect(() => {
@@ -144,27 +164,6 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
     return () => document.removeEventListener("keydown", handleEscape);
   }, [isOpen, onClose]);
 
-  // Highlight search terms
-  const highlightText = (text: string, query: string): React.ReactNode => {
-    if (!query.trim()) return text;
-
-    const terms = query
-      .toLowerCase()
-      .split(" ")
-      .filter((term) => term.length > 0);
-    let highlightedText = text;
-
-    terms.forEach((term) => {
-      const regex = new RegExp(`(${term})`, "gi");
-      highlightedText = highlightedText.replace(
-        regex,
-        '<mark class="bg-yellow-200 px-1 rounded">$1</mark>',
-      );
-    });
-
-    return <span dangerouslySetInnerHTML={{ __html: highlightedText }} />;
-  };
-
   // Format date
   const formatDate = (dateString: string): string => {
     try {
@@ -238,15 +237,19 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
   };
 
   // Handle view mode change
-  const handleViewModeChange = (mode: "relevant" | "all" | "search") => {
+  const handleViewModeChange = (mode: SnippetPreviewViewMode) => {
     setViewMode(mode);
     setActiveSnippetIndex(0);
     setSelectedChunkIndex(null);
+    if (selectedChunkIndex !== null) {
+      onChunkIndexChange?.(null);
+    }
   };
 
   // Handle chunk selection for specific snippet
   const handleChunkSelection = (chunkIndex: number) => {
     setSelectedChunkIndex(chunkIndex);
+    onChunkIndexChange?.(chunkIndex);
   };
 
   return (
@@ -402,6 +405,17 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
                   >
                     Search
                   </button>
+                  <button
+                    onClick={() => handleViewModeChange("summary")}
+                    className={cn(
+                      "px-3 py-2 text-sm font-medium rounded-md transition-colors",
+                      viewMode === "summary"
+                        ? "bg-blue-100 text-blue-700"
+                        : "text-gray-500 hover:text-gray-700 hover:bg-gray-100",
+                    )}
+                  >
+                    Summary
+                  </button>
                 </div>
 
                 {/* Snippet Search */}
@@ -420,7 +434,14 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
               </div>
 
               {/* Snippets */}
-              {currentSnippets.length > 0 ? (
+              {viewMode === "summary" ? (
+                <DocumentSummary
+                  documentId={result.id || ""}
+                  documentTitle={
+                    result.title || result.documentName || "Untitled Document"
+                  }
+                />
+              ) : currentSnippets.length > 0 ? (
                 <div className="p-6">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-lg font-medium text-gray-900">
@@ -476,12 +497,14 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
                   <div className="bg-white border border-gray-200 rounded-lg p-4">
                     <div className="prose max-w-none">
                       <p className="text-gray-700 leading-relaxed">
-                        {highlightText(
-                          currentSnippets[activeSnippetIndex].text,
-                          viewMode === "search"
-                            ? snippetSearchQuery
-                            : searchQuery,
-                        )}
+                        <HighlightedText
+                          text={currentSnippets[activeSnippetIndex].text}
+                          query={
+                            viewMode === "search"
+                              ? snippetSearchQuery
+                              : searchQuery
+                          }
+                        />
                       </p>
                     </div>
 
@@ -541,12 +564,14 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
                       </h4>
                       <div className="prose max-w-none">
                         <p className="text-blue-800 leading-relaxed text-sm">
-                          {highlightText(
-                            specificSnippetData.text,
-                            viewMode === "search"
-                              ? snippetSearchQuery
-                              : searchQuery,
-                          )}
+                          <HighlightedText
+                            text={specificSnippetData.text}
+                            query={
+                              viewMode === "search"
+                                ? snippetSearchQuery
+                                : searchQuery
+                            }
+                          />
                         </p>
                       </div>
                       {specificSnippetData.context && (
@@ -610,7 +635,10 @@ const SnippetPreview: React.FC<SnippetPreviewProps> = ({
                     <div className="p-6 border-t border-gray-200 bg-gray-50">
                       <div className="prose max-w-none">
                         <div className="text-gray-700 leading-relaxed whitespace-pre-wrap">
-                          {highlightText(documentData.content, searchQuery)}
+                          <HighlightedText
+                            text={documentData.content}
+                            query={searchQuery}
+                          />
                         </div>
                       </div>
                     </div>
@@ -23,7 +23,8 @@ export default function SnippetView({
     error,
   } = useQuery({
     queryKey: ['snippet', documentId, chunkIndex],
-    queryFn: () => apiService.getSpecificSnippet(documentId, chunkIndex),
+    queryFn: ({ signal }) =>
+      apiService.getSpecificSnippet(documentId, chunkIndex, signal),
     enabled: isOpen && !!documentId && chunkIndex !== undefined,
   });
 
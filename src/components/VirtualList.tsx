@@ -0,0 +1,120 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+
+interface VirtualListProps<T> {
+  items: T[];
+  // Every row is rendered at this height, in pixels
+  rowHeight: number;
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Rows rendered beyond each edge of the viewport
+  overscan?: number;
+  // Applied once enough rows have loaded to reach it, unless the user
+  // scrolls first
+  initialScrollTop?: number;
+  onScrollTopChange?: (scrollTop: number) => void;
+  className?: string;
+}
+
+const SCROLL_REPORT_DELAY = 200;
+
+// Scrolling list that only mounts the rows in view, so trees with tens of
+// thousands of rows stay responsive
+const VirtualList = <T,>({
+  items,
+  rowHeight,
+  getKey,
+  renderItem,
+  overscan = 10,
+  initialScrollTop,
+  onScrollTopChange,
+  className,
+}: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const pendingScrollTopRef = useRef(initialScrollTop || 0);
+  const onScrollTopChangeRef = useRef(onScrollTopChange);
+
+  useEffect(() => {
+    onScrollTopChangeRef.current = onScrollTopChange;
+  }, [onScrollTopChange]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let reportTimeout: ReturnType<typeof setTimeout> | undefined;
+    const handleScroll = () => {
+      setViewport((prev) => ({ ...prev, scrollTop: container.scrollTop }));
+      clearTimeout(reportTimeout);
+      reportTimeout = setTimeout(
+        () => onScrollTopChangeRef.current?.(container.scrollTop),
+        SCROLL_REPORT_DELAY
+      );
+    };
+    // Once the user scrolls, a restore that hasn't happened yet would only
+    // yank the list away from them
+    const cancelRestore = () => {
+      pendingScrollTopRef.current = 0;
+    };
+    const resizeObserver = new ResizeObserver(() =>
+      setViewport((prev) => ({ ...prev, height: container.clientHeight }))
+    );
+
+    container.addEventListener("scroll", handleScroll, { passive: true });
+    container.addEventListener("wheel", cancelRestore, { passive: true });
+    container.addEventListener("touchstart", cancelRestore, { passive: true });
+    container.addEventListener("pointerdown", cancelRestore);
+    container.addEventListener("keydown", cancelRestore);
+    resizeObserver.observe(container);
+    return () => {
+      clearTimeout(reportTimeout);
+      container.removeEventListener("scroll", handleScroll);
+      container.removeEventListener("wheel", cancelRestore);
+      container.removeEventListener("touchstart", cancelRestore);
+      container.removeEventListener("pointerdown", cancelRestore);
+      container.removeEventListener("keydown", cancelRestore);
+      resizeObserver.disconnect();
+    };
+  }, []);
+
+  // Rows arrive a branch at a time after a reload, so wait until the list is
+  // tall enough to scroll to the remembered position
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const pendingScrollTop = pendingScrollTopRef.current;
+    if (!container || !pendingScrollTop) return;
+    if (container.scrollHeight - container.clientHeight >= pendingScrollTop) {
+      container.scrollTop = pendingScrollTop;
+      pendingScrollTopRef.current = 0;
+    }
+  }, [items.length]);
+
+  const totalHeight = items.length * rowHeight;
+  const start = Math.max(
+    0,
+    Math.floor(viewport.scrollTop / rowHeight) - overscan
+  );
+  const end = Math.min(
+    items.length,
+    Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + overscan
+  );
+
+  return (
+    <div ref={containerRef} className={`overflow-y-auto ${className || ""}`}>
+      <div className="relative" style={{ height: totalHeight }}>
+        <div
+          className="absolute inset-x-0 top-0"
+          style={{ transform: `translateY(${start * rowHeight}px)` }}
+        >
+          {items.slice(start, end).map((item) => (
+            <div key={getKey(item)} style={{ height: rowHeight }}>
+              {renderItem(item)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
@@ -1,9 +1,18 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import type {
+  QueryClient,
   UseQueryOptions,
   UseMutationOptions,
 } from "@tanstack/react-query";
 import { apiService } from "../services/api";
+import { summaryStorage } from "../services/summaryStorage";
+import { getListedDocuments } from "../lib/documents";
+import { dedupeSearchResults } from "../lib/searchResults";
 import type {
   SearchResponse,
   RAGQueryRequest,
@@ -24,11 +33,14 @@ import type {
   DocumentListResponse,
   IndexDocumentRequest,
   BatchIndexRequest,
+  IndexedDocument,
   IndexedDocumentsResponse,
+  IndexingResult,
   FoldersResponse,
   MultiStepRAGRequest,
   ConversationRAGRequest,
   SummarizeRequest,
+  SummaryType,
   CompareDocumentsRequest,
   RAGConfigResponse,
   DocumentSnippetsRequest,
@@ -41,12 +53,14 @@ import type {
   SnippetStatsResponse,
   ApiResponse,
 } from "../types/api";
+import type { StoredSummary } from "../types/summary";
 
 // Search hooks
 export const useSearch = (
   query: string,
   options?: {
     folderId?: string;
+    documentId?: string;
     limit?: number;
     cursor?: string;
   },
@@ -57,7 +71,7 @@ export const useSearch = (
 ) => {
   return useQuery({
     queryKey: ["search", query, options],
-    queryFn: () => apiService.search(query, options),
+    queryFn: ({ signal }) => apiService.search(query, options, signal),
     enabled: !!query && query.length > 0,
     staleTime: 5 * 60 * 1000, // 5 minutes
     select: (data) => data.data,
@@ -75,7 +89,7 @@ export const useAutocomplete = (
 ) => {
   return useQuery({
     queryKey: ["autocomplete", query, limit],
-    queryFn: () => apiService.getAutocomplete(query, limit),
+    queryFn: ({ signal }) => apiService.getAutocomplete(query, limit, signal),
     enabled: !!query && query.length > 1,
     staleTime: 2 * 60 * 1000, // 2 minutes
     ...queryOptions,
@@ -108,7 +122,7 @@ export const useDocument = (
 ) => {
   return useQuery({
     queryKey: ["document", documentId],
-    queryFn: () => apiService.getDocument(documentId),
+    queryFn: ({ signal }) => apiService.getDocument(documentId, signal),
     enabled: !!documentId,
     staleTime: 10 * 60 * 1000, // 10 minutes
     ...queryOptions,
@@ -145,7 +159,7 @@ export const useSnippets = (
 ) => {
   return useQuery({
     queryKey: ["snippets", request],
-    queryFn: () => apiService.getSnippets(request),
+    queryFn: ({ signal }) => apiService.getSnippets(request, signal),
     enabled: !!request.documentId,
     staleTime: 5 * 60 * 1000, // 5 minutes
     ...queryOptions,
@@ -174,27 +188,33 @@ export const useRetryableQuery = <T>(
   });
 };
 
-// Hook for infinite scroll/pagination
+// Hook for infinite scroll/pagination. Pages are requested with the
+// nextCursor of the previous page until the server reports hasMore: false.
 export const useInfiniteSearch = (
   query: string,
-  options?: {
+  options?: Omit<SemanticSearchRequest, "query"> & {
     folderId?: string;
-    limit?: number;
-  }
+    documentId?: string;
+  },
+  queryOptions?: { enabled?: boolean }
 ) => {
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: ["infiniteSearch", query, options],
-    queryFn: async ({ pageParam = undefined }) => {
-      return apiService.search(query, {
-        ...options,
-        cursor: pageParam,
-      });
-    },
-    enabled: !!query && query.length > 0,
+    queryFn: ({ pageParam, signal }) =>
+      apiService.search(query, { ...options, cursor: pageParam }, signal),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.data?.hasMore ? lastPage.data.nextCursor : undefined,
+    select: (data) => ({
+      results: dedupeSearchResults(
+        data.pages.flatMap((page) => page.data?.results || [])
+      ),
+      total: data.pages[0]?.data?.total || 0,
+      facets: data.pages[0]?.data?.facets,
+      pageCount: data.pages.length,
+    }),
+    enabled: !!query && query.length > 0 && (queryOptions?.enabled ?? true),
     staleTime: 5 * 60 * 1000,
-    getNextPageParam: (lastPage) => {
-      return lastPage.hasMore ? lastPage.nextCursor : undefined;
-    },
   });
 };
 
@@ -207,7 +227,7 @@ export const useHealth = (
 ) => {
   return useQuery({
     queryKey: ["health"],
-    queryFn: () => apiService.getHealth(),
+    queryFn: ({ signal }) => apiService.getHealth(signal),
     staleTime: 30 * 1000, // 30 seconds
     refetchInterval: 60 * 1000, // 1 minute
     ...queryOptions,
@@ -224,7 +244,7 @@ export const useSemanticSearch = (
 ) => {
   return useQuery({
     queryKey: ["semanticSearch", request],
-    queryFn: () => apiService.semanticSearch(request),
+    queryFn: ({ signal }) => apiService.semanticSearch(request, signal),
     enabled: !!request.query && request.query.length > 0,
     staleTime: 5 * 60 * 1000,
     ...queryOptions,
@@ -241,7 +261,8 @@ export const useSearchSuggestions = (
 ) => {
   return useQuery({
     queryKey: ["searchSuggestions", query, limit],
-    queryFn: () => apiService.getSearchSuggestions(query, limit),
+    queryFn: ({ signal }) =>
+      apiService.getSearchSuggestions(query, limit, signal),
     enabled: !!query && query.length > 1,
     staleTime: 2 * 60 * 1000,
     ...queryOptions,
@@ -259,7 +280,8 @@ export const useSimilarDocuments = (
 ) => {
   return useQuery({
     queryKey: ["similarDocuments", documentId, limit, threshold],
-    queryFn: () => apiService.getSimilarDocuments(documentId, limit, threshold),
+    queryFn: ({ signal }) =>
+      apiService.getSimilarDocuments(documentId, limit, threshold, signal),
     enabled: !!documentId,
     staleTime: 10 * 60 * 1000,
     ...queryOptions,
@@ -274,13 +296,49 @@ export const useSearchStats = (
 ) => {
   return useQuery({
     queryKey: ["searchStats"],
-    queryFn: () => apiService.getSearchStats(),
+    queryFn: ({ signal }) => apiService.getSearchStats(signal),
     staleTime: 5 * 60 * 1000,
     ...queryOptions,
   });
 };
 
 // Enhanced Document Management Hooks
+const getDocumentsQuery = (request?: DocumentListRequest) => ({
+  queryKey: ["documents", request],
+  queryFn: ({ signal }: { signal: AbortSignal }) =>
+    apiService.getDocuments(request, signal),
+  staleTime: 5 * 60 * 1000,
+});
+
+const FOLDER_DOCUMENTS_PAGE_SIZE = 100;
+
+// One page of the documents shown under a folder in the sidebar; shared so
+// other views can reuse what the tree already loaded
+export const getFolderDocumentsQuery = (folderId: string, pageToken?: string) =>
+  getDocumentsQuery({
+    folderId,
+    limit: FOLDER_DOCUMENTS_PAGE_SIZE,
+    pageToken,
+  });
+
+// Every document in a folder, following page tokens; pages the tree has
+// already loaded come from the cache
+export const fetchAllFolderDocuments = async (
+  queryClient: QueryClient,
+  folderId: string
+): Promise<DocumentDetails[]> => {
+  const documents: DocumentDetails[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await queryClient.fetchQuery(
+      getFolderDocumentsQuery(folderId, pageToken)
+    );
+    documents.push(...getListedDocuments(response));
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+  return documents;
+};
+
 export const useDocuments = (
   request?: DocumentListRequest,
   queryOptions?: Omit<
@@ -289,13 +347,77 @@ export const useDocuments = (
   >
 ) => {
   return useQuery({
-    queryKey: ["documents", request],
-    queryFn: () => apiService.getDocuments(request),
-    staleTime: 5 * 60 * 1000,
+    ...getDocumentsQuery(request),
     ...queryOptions,
   });
 };
 
+const ALL_INDEXED_DOCUMENTS_KEY = ["indexedDocuments", "all"];
+
+// Run after index changes whatever onSuccess the caller passes, so listings
+// and stats never show the old state. The whole index is left out; it is
+// patched by updateIndexedDocuments instead.
+export const invalidateIndexQueries = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: ["documents"] });
+  queryClient.invalidateQueries({
+    queryKey: ["indexedDocuments"],
+    predicate: (query) => query.queryKey[1] !== "all",
+  });
+  queryClient.invalidateQueries({ queryKey: ["searchStats"] });
+};
+
+const findListedDocument = (queryClient: QueryClient, documentId: string) => {
+  for (const [, response] of queryClient.getQueriesData<DocumentListResponse>({
+    queryKey: ["documents"],
+  })) {
+    const document =
+      response &&
+      getListedDocuments(response).find(({ id }) => id === documentId);
+    if (document) return document;
+  }
+  return undefined;
+};
+
+// Applies index changes to the cached whole index, so badges update without
+// reading it all again. Documents that were never listed can't be added, so
+// those fall back to a refetch.
+export const updateIndexedDocuments = (
+  queryClient: QueryClient,
+  {
+    indexed = [],
+    removedIds = [],
+  }: { indexed?: IndexingResult[]; removedIds?: string[] }
+) => {
+  const documents = queryClient.getQueryData<IndexedDocument[]>(
+    ALL_INDEXED_DOCUMENTS_KEY
+  );
+  if (!documents) return;
+
+  const documentsById = new Map(
+    documents.map((document) => [document.id, document])
+  );
+  removedIds.forEach((id) => documentsById.delete(id));
+  const dateIndexed = new Date().toISOString();
+  for (const { documentId, status, error } of indexed) {
+    const previous = documentsById.get(documentId);
+    const document = previous || findListedDocument(queryClient, documentId);
+    if (!document) {
+      queryClient.invalidateQueries({ queryKey: ALL_INDEXED_DOCUMENTS_KEY });
+      return;
+    }
+    documentsById.set(documentId, {
+      ...document,
+      status,
+      error,
+      dateIndexed: status === "indexed" ? dateIndexed : previous?.dateIndexed,
+    });
+  }
+  queryClient.setQueryData(
+    ALL_INDEXED_DOCUMENTS_KEY,
+    Array.from(documentsById.values())
+  );
+};
+
 export const useIndexDocument = (
   options?: UseMutationOptions<
     ApiResponse<any>,
@@ -308,12 +430,21 @@ export const useIndexDocument = (
   return useMutation({
     mutationFn: ({ documentId, request }) =>
       apiService.indexDocument(documentId, request),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["documents"] });
-      queryClient.invalidateQueries({ queryKey: ["indexedDocuments"] });
-      queryClient.invalidateQueries({ queryKey: ["searchStats"] });
-    },
     ...options,
+    onSuccess: (...args) => {
+      const [response, { documentId }] = args;
+      updateIndexedDocuments(queryClient, {
+        indexed: [
+          {
+            documentId,
+            status: response.data?.status || "indexed",
+            error: response.data?.error,
+          },
+        ],
+      });
+      invalidateIndexQueries(queryClient);
+      return options?.onSuccess?.(...args);
+    },
   });
 };
 
@@ -325,12 +456,17 @@ export const useBatchIndexDocuments = (
   return useMutation({
     mutationFn: (request: BatchIndexRequest) =>
       apiService.batchIndexDocuments(request),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["documents"] });
-      queryClient.invalidateQueries({ queryKey: ["indexedDocuments"] });
-      queryClient.invalidateQueries({ queryKey: ["searchStats"] });
-    },
     ...options,
+    onSuccess: (...args) => {
+      const [response, { documentIds }] = args;
+      updateIndexedDocuments(queryClient, {
+        indexed:
+          response.data?.results ||
+          documentIds.map((documentId) => ({ documentId, status: "indexed" })),
+      });
+      invalidateIndexQueries(queryClient);
+      return options?.onSuccess?.(...args);
+    },
   });
 };
 
@@ -342,12 +478,51 @@ export const useRemoveDocumentFromIndex = (
   return useMutation({
     mutationFn: (documentId: string) =>
       apiService.removeDocumentFromIndex(documentId),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["documents"] });
-      queryClient.invalidateQueries({ queryKey: ["indexedDocuments"] });
-      queryClient.invalidateQueries({ queryKey: ["searchStats"] });
+    ...options,
+    onSuccess: (...args) => {
+      updateIndexedDocuments(queryClient, { removedIds: [args[1]] });
+      invalidateIndexQueries(queryClient);
+      return options?.onSuccess?.(...args);
+    },
+  });
+};
+
+// There is no batch endpoint for removal, so documents are removed a few
+// at a time. Failures are reported per document rather than thrown.
+const REMOVE_CONCURRENCY = 5;
+
+export const useBatchRemoveDocumentsFromIndex = (
+  options?: UseMutationOptions<
+    { removedIds: string[]; failedIds: string[] },
+    ApiError,
+    string[]
+  >
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (documentIds: string[]) => {
+      const removedIds: string[] = [];
+      const failedIds: string[] = [];
+      for (let i = 0; i < documentIds.length; i += REMOVE_CONCURRENCY) {
+        const chunk = documentIds.slice(i, i + REMOVE_CONCURRENCY);
+        const results = await Promise.allSettled(
+          chunk.map((id) => apiService.removeDocumentFromIndex(id))
+        );
+        results.forEach((result, index) =>
+          (result.status === "fulfilled" ? removedIds : failedIds).push(
+            chunk[index]
+          )
+        );
+      }
+      return { removedIds, failedIds };
     },
     ...options,
+    onSuccess: (...args) => {
+      updateIndexedDocuments(queryClient, { removedIds: args[0].removedIds });
+      invalidateIndexQueries(queryClient);
+      return options?.onSuccess?.(...args);
+    },
   });
 };
 
@@ -362,12 +537,56 @@ export const useIndexedDocuments = (
 ) => {
   return useQuery({
     queryKey: ["indexedDocuments", limit, offset, fileType],
-    queryFn: () => apiService.getIndexedDocuments(limit, offset, fileType),
+    queryFn: ({ signal }) =>
+      apiService.getIndexedDocuments(limit, offset, fileType, signal),
+    staleTime: 5 * 60 * 1000,
+    ...queryOptions,
+  });
+};
+
+const INDEXED_DOCUMENTS_PAGE_SIZE = 500;
+
+// The whole index, read page by page, so the sidebar can reconcile every
+// document in the tree against it. Changes made from this app are patched
+// in by updateIndexedDocuments rather than read again.
+export const useAllIndexedDocuments = (
+  queryOptions?: Omit<
+    UseQueryOptions<IndexedDocument[], ApiError>,
+    "queryKey" | "queryFn"
+  >
+) => {
+  return useQuery({
+    queryKey: ALL_INDEXED_DOCUMENTS_KEY,
+    queryFn: async ({ signal }) => {
+      const documents: IndexedDocument[] = [];
+      let response: IndexedDocumentsResponse;
+      do {
+        response = await apiService.getIndexedDocuments(
+          INDEXED_DOCUMENTS_PAGE_SIZE,
+          documents.length,
+          undefined,
+          signal
+        );
+        documents.push(...response.documents);
+      } while (
+        response.documents.length === INDEXED_DOCUMENTS_PAGE_SIZE &&
+        documents.length < response.total
+      );
+      return documents;
+    },
     staleTime: 5 * 60 * 1000,
     ...queryOptions,
   });
 };
 
+// One level of the folder hierarchy; the root when parentId is undefined
+export const getFoldersQuery = (parentId?: string, limit?: number) => ({
+  queryKey: ["folders", parentId, limit],
+  queryFn: ({ signal }: { signal: AbortSignal }) =>
+    apiService.getFolders(parentId, limit, signal),
+  staleTime: 10 * 60 * 1000,
+});
+
 export const useFolders = (
   parentId?: string,
   limit?: number,
@@ -377,9 +596,7 @@ export const useFolders = (
   >
 ) => {
   return useQuery({
-    queryKey: ["folders", parentId, limit],
-    queryFn: () => apiService.getFolders(parentId, limit),
-    staleTime: 10 * 60 * 1000,
+    ...getFoldersQuery(parentId, limit),
     ...queryOptions,
     select: (data) => data.data || [],
   });
@@ -416,18 +633,80 @@ export const useConversationRAG = (
   });
 };
 
+// Generates a summary and keeps it in IndexedDB. A summary that can't be
+// stored is still returned.
+const generateSummary = async (
+  { documentId, summaryType }: Required<SummarizeRequest>,
+  signal?: AbortSignal
+): Promise<StoredSummary> => {
+  const response = await apiService.summarizeDocument(
+    { documentId, summaryType },
+    signal
+  );
+  try {
+    return await summaryStorage.saveSummary(documentId, summaryType, response);
+  } catch (error) {
+    console.error("Failed to store summary:", error);
+    return {
+      id: `${documentId}:${summaryType}`,
+      documentId,
+      summaryType,
+      response,
+      generatedAt: new Date(),
+    };
+  }
+};
+
+// Always generates a new summary, replacing the stored one
 export const useSummarizeDocument = (
-  options?: UseMutationOptions<RAGResponse, ApiError, SummarizeRequest>
+  options?: UseMutationOptions<
+    StoredSummary,
+    ApiError,
+    Required<SummarizeRequest>
+  >
 ) => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (request: SummarizeRequest) =>
-      apiService.summarizeDocument(request),
-    onSuccess: (data, variables) => {
-      queryClient.setQueryData(["summarize", variables.documentId], data);
-    },
+    mutationFn: (request: Required<SummarizeRequest>) =>
+      generateSummary(request),
+    retry: false,
     ...options,
+    onSuccess: (...args) => {
+      const [summary] = args;
+      queryClient.setQueryData(
+        ["summarize", summary.documentId, summary.summaryType],
+        summary
+      );
+      return options?.onSuccess?.(...args);
+    },
+  });
+};
+
+// Summaries are expensive to generate, so each documentId/summaryType pair is
+// read from IndexedDB when it was generated before, and is not retried on
+// failure. useSummarizeDocument regenerates one.
+export const useDocumentSummary = (
+  documentId: string,
+  summaryType: SummaryType,
+  queryOptions?: Omit<
+    UseQueryOptions<StoredSummary, ApiError>,
+    "queryKey" | "queryFn"
+  >
+) => {
+  return useQuery({
+    queryKey: ["summarize", documentId, summaryType],
+    queryFn: async ({ signal }) => {
+      const stored = await summaryStorage
+        .getSummary(documentId, summaryType)
+        .catch(() => undefined);
+      return stored || generateSummary({ documentId, summaryType }, signal);
+    },
+    enabled: !!documentId,
+    staleTime: Infinity,
+    gcTime: Infinity,
+    retry: false,
+    ...queryOptions,
   });
 };
 
@@ -441,7 +720,7 @@ export const useCompareDocuments = (
       apiService.compareDocuments(request),
     onSuccess: (data, variables) => {
       queryClient.setQueryData(
-        ["compare", variables.documentIds.sort().join(",")],
+        ["compare", [...variables.documentIds].sort().join(",")],
         data
       );
     },
@@ -457,7 +736,7 @@ export const useRAGConfig = (
 ) => {
   return useQuery({
     queryKey: ["ragConfig"],
-    queryFn: () => apiService.getRAGConfig(),
+    queryFn: ({ signal }) => apiService.getRAGConfig(signal),
     staleTime: 30 * 60 * 1000, // 30 minutes
     ...queryOptions,
   });
@@ -474,7 +753,8 @@ export const useDocumentSnippets = (
 ) => {
   return useQuery({
     queryKey: ["documentSnippets", documentId, request],
-    queryFn: () => apiService.getDocumentSnippets(documentId, request),
+    queryFn: ({ signal }) =>
+      apiService.getDocumentSnippets(documentId, request, signal),
     enabled: !!documentId,
     staleTime: 10 * 60 * 1000,
     ...queryOptions,
@@ -491,7 +771,8 @@ export const useSpecificSnippet = (
 ) => {
   return useQuery({
     queryKey: ["specificSnippet", documentId, chunkIndex],
-    queryFn: () => apiService.getSpecificSnippet(documentId, chunkIndex),
+    queryFn: ({ signal }) =>
+      apiService.getSpecificSnippet(documentId, chunkIndex, signal),
     enabled: !!documentId && chunkIndex >= 0,
     staleTime: 15 * 60 * 1000,
     ...queryOptions,
@@ -507,7 +788,7 @@ export const useSnippetSearch = (
 ) => {
   return useQuery({
     queryKey: ["snippetSearch", request],
-    queryFn: () => apiService.searchSnippets(request),
+    queryFn: ({ signal }) => apiService.searchSnippets(request, signal),
     enabled: !!request.query && request.query.length > 0,
     staleTime: 5 * 60 * 1000,
     ...queryOptions,
@@ -523,7 +804,7 @@ export const useRandomSnippets = (
 ) => {
   return useQuery({
     queryKey: ["randomSnippets", request],
-    queryFn: () => apiService.getRandomSnippets(request),
+    queryFn: ({ signal }) => apiService.getRandomSnippets(request, signal),
     staleTime: 2 * 60 * 1000,
     ...queryOptions,
   });
@@ -537,7 +818,7 @@ export const useSnippetStats = (
 ) => {
   return useQuery({
     queryKey: ["snippetStats"],
-    queryFn: () => apiService.getSnippetStats(),
+    queryFn: ({ signal }) => apiService.getSnippetStats(signal),
     staleTime: 10 * 60 * 1000,
     ...queryOptions,
   });
@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { UseMutationOptions } from "@tanstack/react-query";
+import { chatStorage } from "../services/chatStorage";
+import type { ChatMessage, ChatScope, ChatSession } from "../types/chat";
+
+// Chat sessions live in IndexedDB; React Query keeps the list in sync across
+// components
+export const useChatSessions = () => {
+  return useQuery({
+    queryKey: ["chatSessions"],
+    queryFn: () => chatStorage.listSessions(),
+    staleTime: Infinity,
+  });
+};
+
+export const useSaveChatSession = (
+  options?: UseMutationOptions<
+    ChatSession,
+    Error,
+    { sessionId: string; messages: ChatMessage[]; scope: ChatScope }
+  >
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ sessionId, messages, scope }) =>
+      chatStorage.saveMessages(sessionId, messages, scope),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chatSessions"] });
+    },
+    ...options,
+  });
+};
+
+export const useRenameChatSession = (
+  options?: UseMutationOptions<
+    void,
+    Error,
+    { sessionId: string; title: string }
+  >
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ sessionId, title }) =>
+      chatStorage.renameSession(sessionId, title),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chatSessions"] });
+    },
+    ...options,
+  });
+};
+
+export const useDeleteChatSession = (
+  options?: UseMutationOptions<void, Error, string>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sessionId: string) => chatStorage.deleteSession(sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chatSessions"] });
+    },
+    ...options,
+  });
+};
@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { UseMutationOptions } from "@tanstack/react-query";
+import { comparisonStorage } from "../services/comparisonStorage";
+import type { SavedComparison } from "../types/comparison";
+
+// Saved document comparisons live in IndexedDB alongside chat sessions
+export const useSavedComparisons = () => {
+  return useQuery({
+    queryKey: ["comparisons"],
+    queryFn: () => comparisonStorage.listComparisons(),
+    staleTime: Infinity,
+  });
+};
+
+export const useSaveComparison = (
+  options?: UseMutationOptions<SavedComparison, Error, SavedComparison>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (comparison: SavedComparison) =>
+      comparisonStorage.saveComparison(comparison),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["comparisons"] });
+    },
+    ...options,
+  });
+};
+
+export const useDeleteComparison = (
+  options?: UseMutationOptions<void, Error, string>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (comparisonId: string) =>
+      comparisonStorage.deleteComparison(comparisonId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["comparisons"] });
+    },
+    ...options,
+  });
+};
@@ -0,0 +1,180 @@
+import { useCallback, useState } from "react";
+import { useQueries, useQueryClient } from "@tanstack/react-query";
+import { getFolderDocumentsQuery, getFoldersQuery } from "./useApi";
+import { getListedDocuments } from "../lib/documents";
+import {
+  buildFolderTreeRows,
+  collectFolderIds,
+  type FolderBranch,
+} from "../lib/folderTree";
+import type {
+  DocumentDetails,
+  DocumentListResponse,
+  DriveFolder,
+  FoldersResponse,
+} from "../types/api";
+
+const NOT_LOADED: FolderBranch<never> = { isLoading: false };
+
+// Lazily loaded folder tree: the root is fetched up front and every expanded
+// folder fetches its own subfolders and documents. Expanded folders under a
+// collapsed parent keep their cache but aren't fetched. Documents come in
+// pages; a folder shows as many as "Load more" has asked for.
+export const useFolderTree = (
+  expandedFolderIds: Set<string>,
+  filter?: string
+) => {
+  const queryClient = useQueryClient();
+  const [documentPageCounts, setDocumentPageCounts] = useState<
+    Map<string, number>
+  >(new Map());
+
+  const getCachedSubfolders = useCallback(
+    (parentId?: string) =>
+      queryClient.getQueryData<FoldersResponse>(
+        getFoldersQuery(parentId).queryKey
+      )?.data?.folders,
+    [queryClient]
+  );
+
+  const openFolderIds = collectFolderIds(
+    undefined,
+    getCachedSubfolders,
+    (folderId) => expandedFolderIds.has(folderId)
+  );
+
+  // Each page's token comes with the page before it, so page n can only be
+  // requested once page n - 1 is in the cache
+  const documentPages = openFolderIds.flatMap((folderId) => {
+    const pages: Array<{ folderId: string; pageToken?: string }> = [
+      { folderId },
+    ];
+    const pageCount = documentPageCounts.get(folderId) || 1;
+    while (pages.length < pageCount) {
+      const previous = queryClient.getQueryData<DocumentListResponse>(
+        getFolderDocumentsQuery(folderId, pages[pages.length - 1].pageToken)
+          .queryKey
+      );
+      if (!previous?.nextPageToken) break;
+      pages.push({ folderId, pageToken: previous.nextPageToken });
+    }
+    return pages;
+  });
+
+  const [rootQuery, ...subfolderQueries] = useQueries({
+    queries: [undefined, ...openFolderIds].map((parentId) =>
+      getFoldersQuery(parentId)
+    ),
+  });
+  const documentQueries = useQueries({
+    queries: documentPages.map(({ folderId, pageToken }) =>
+      getFolderDocumentsQuery(folderId, pageToken)
+    ),
+  });
+
+  const subfoldersById = new Map(
+    openFolderIds.map((folderId, index) => [folderId, subfolderQueries[index]])
+  );
+  const documentPagesById = new Map<string, typeof documentQueries>();
+  documentPages.forEach(({ folderId }, index) => {
+    const pages = documentPagesById.get(folderId) || [];
+    pages.push(documentQueries[index]);
+    documentPagesById.set(folderId, pages);
+  });
+
+  const getSubfolders = (parentId?: string): FolderBranch<DriveFolder> => {
+    const query = parentId ? subfoldersById.get(parentId) : rootQuery;
+    if (!query) return NOT_LOADED;
+    return {
+      data: query.data?.data?.folders,
+      isLoading: query.isPending,
+      error: query.error,
+    };
+  };
+
+  // Folders that aren't open keep the pages loaded while they were, e.g. for
+  // their index rollup
+  const getCachedDocuments = (
+    folderId: string
+  ): FolderBranch<DocumentDetails> => {
+    const pageCount = documentPageCounts.get(folderId) || 1;
+    const pages: DocumentListResponse[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = queryClient.getQueryData<DocumentListResponse>(
+        getFolderDocumentsQuery(folderId, pageToken).queryKey
+      );
+      if (!page) break;
+      pages.push(page);
+      pageToken = page.nextPageToken;
+    } while (pageToken && pages.length < pageCount);
+    if (pages.length === 0) return NOT_LOADED;
+    return {
+      data: pages.flatMap(getListedDocuments),
+      isLoading: false,
+      hasMore: !!pages[pages.length - 1].nextPageToken,
+      total: pages[0].total,
+    };
+  };
+
+  const getDocuments = (folderId: string): FolderBranch<DocumentDetails> => {
+    const pages = documentPagesById.get(folderId);
+    if (!pages) return getCachedDocuments(folderId);
+    const [firstPage] = pages;
+    const lastPage = pages[pages.length - 1];
+    return {
+      data: firstPage.data
+        ? pages.flatMap((page) =>
+            page.data ? getListedDocuments(page.data) : []
+          )
+        : undefined,
+      isLoading: firstPage.isPending,
+      error: pages.find((page) => page.error)?.error,
+      hasMore: !!lastPage.data?.nextPageToken,
+      isLoadingMore: pages.slice(1).some((page) => page.isPending),
+      total: firstPage.data?.total,
+    };
+  };
+
+  const rows = buildFolderTreeRows({
+    expandedFolderIds,
+    getSubfolders,
+    getDocuments,
+    filter,
+  });
+
+  const loadMoreDocuments = (folderId: string) => {
+    const loadedPageCount = documentPagesById.get(folderId)?.length || 1;
+    setDocumentPageCounts((prev) =>
+      new Map(prev).set(folderId, loadedPageCount + 1)
+    );
+  };
+
+  // Document keys are matched by folder so every loaded page is included
+  const retryFolder = (folderId: string) => {
+    queryClient.refetchQueries({ queryKey: ["folders", folderId] });
+    queryClient.refetchQueries({ queryKey: ["documents", { folderId }] });
+  };
+
+  // Re-fetches one folder and everything loaded below it, leaving the rest of
+  // the tree alone
+  const refreshFolder = (folderId: string) => {
+    [folderId, ...collectFolderIds(folderId, getCachedSubfolders)].forEach(
+      (id) => {
+        queryClient.invalidateQueries({ queryKey: ["folders", id] });
+        queryClient.invalidateQueries({
+          queryKey: ["documents", { folderId: id }],
+        });
+      }
+    );
+  };
+
+  return {
+    rows,
+    rootQuery,
+    getDocuments,
+    loadMoreDocuments,
+    retryFolder,
+    refreshFolder,
+  };
+};
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { invalidateIndexQueries, updateIndexedDocuments } from "./useApi";
+import { indexingQueue } from "../services/indexingQueue";
+import type { IndexingResult } from "../types/api";
+import type { IndexingJob } from "../types/indexing";
+
+export const useIndexingJobs = () =>
+  useSyncExternalStore(indexingQueue.subscribe, indexingQueue.getJobs);
+
+// Ids of documents in queued or running jobs
+export const useIndexingDocumentIds = () => {
+  const jobs = useIndexingJobs();
+  return new Set(
+    jobs.flatMap((job) =>
+      job.state === "queued" || job.state === "running"
+        ? job.documentIds.slice(job.completedCount)
+        : []
+    )
+  );
+};
+
+// What the backend made of each document the job sent
+const getJobResults = (job: IndexingJob): IndexingResult[] => {
+  const errors = new Map(
+    job.failures.map((failure) => [failure.documentId, failure.error])
+  );
+  return job.documentIds
+    .slice(0, job.completedCount)
+    .map((documentId) =>
+      errors.has(documentId)
+        ? { documentId, status: "failed", error: errors.get(documentId) }
+        : { documentId, status: "indexed" }
+    );
+};
+
+// Refreshes listings, badges and stats as each job finishes. Mounted once, by
+// the activity drawer.
+export const useIndexingJobFinished = (
+  onFinished?: (job: IndexingJob) => void
+) => {
+  const queryClient = useQueryClient();
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(
+    () =>
+      indexingQueue.onJobFinished((job) => {
+        updateIndexedDocuments(queryClient, { indexed: getJobResults(job) });
+        invalidateIndexQueries(queryClient);
+        onFinishedRef.current?.(job);
+      }),
+    [queryClient]
+  );
+};
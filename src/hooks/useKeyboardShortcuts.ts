@@ -0,0 +1,53 @@
+import { useEffect, useRef } from "react";
+import { isEditableTarget } from "../lib/shortcuts";
+
+type ShortcutHandlers = Partial<Record<string, (event: KeyboardEvent) => void>>;
+
+// Binds single-key shortcuts (by KeyboardEvent.key) on the document. Keys
+// typed into fields or combined with Alt are left alone. "Mod+k" style keys
+// match Ctrl on Windows/Linux and Cmd on macOS, and also work inside fields.
+export const useKeyboardShortcuts = (
+  handlers: ShortcutHandlers,
+  enabled: boolean = true
+) => {
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.altKey) return;
+
+      if (event.ctrlKey || event.metaKey) {
+        const handler = handlersRef.current[`Mod+${event.key.toLowerCase()}`];
+        if (handler) {
+          event.preventDefault();
+          handler(event);
+        }
+        return;
+      }
+
+      if (isEditableTarget(event.target)) return;
+      // Enter on a focused button or link keeps its native meaning
+      if (
+        event.key === "Enter" &&
+        event.target instanceof HTMLElement &&
+        event.target.closest("button, a")
+      ) {
+        return;
+      }
+
+      const handler = handlersRef.current[event.key];
+      if (handler) {
+        event.preventDefault();
+        handler(event);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,66 @@
+import { useEffect, useLayoutEffect, useRef } from "react";
+
+interface ScrollPosition {
+  scrollTop: number;
+  // Pages of content loaded when the offset was saved
+  pageCount: number;
+}
+
+interface ScrollRestorationOptions {
+  // e.g. the content has loaded
+  isReady: boolean;
+  // For paged content: restoring first loads as many pages as were loaded
+  // when the offset was saved, so it can be reached
+  pageCount?: number;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+// Scroll offsets by key, kept for the lifetime of the page
+const scrollPositions = new Map<string, ScrollPosition>();
+
+// Remembers the scroll offset of a container under `key` and restores it
+// once `isReady` when the container remounts
+export const useScrollRestoration = <T extends HTMLElement>(
+  key: string,
+  {
+    isReady,
+    pageCount = 1,
+    hasMore = false,
+    onLoadMore,
+  }: ScrollRestorationOptions
+) => {
+  const containerRef = useRef<T>(null);
+  const restoredKeyRef = useRef<string | null>(null);
+  const pageCountRef = useRef(pageCount);
+
+  useLayoutEffect(() => {
+    pageCountRef.current = pageCount;
+    const container = containerRef.current;
+    if (!container || !isReady || restoredKeyRef.current === key) return;
+
+    const saved = scrollPositions.get(key);
+    if (saved && saved.pageCount > pageCount && hasMore && onLoadMore) {
+      onLoadMore();
+      return;
+    }
+    restoredKeyRef.current = key;
+    container.scrollTop = saved?.scrollTop || 0;
+  }, [key, isReady, pageCount, hasMore, onLoadMore]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleScroll = () => {
+      scrollPositions.set(key, {
+        scrollTop: container.scrollTop,
+        pageCount: pageCountRef.current,
+      });
+    };
+    container.addEventListener("scroll", handleScroll, { passive: true });
+    return () => container.removeEventListener("scroll", handleScroll);
+  }, [key]);
+
+  return containerRef;
+};
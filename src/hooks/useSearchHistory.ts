@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { UseMutationOptions } from "@tanstack/react-query";
+import { searchStorage } from "../services/searchStorage";
+import type {
+  SavedSearch,
+  SearchHistoryEntry,
+  StoredSearch,
+} from "../types/search";
+
+// Recent searches and pinned saved searches live in IndexedDB
+export const useSearchHistory = () => {
+  return useQuery({
+    queryKey: ["searchHistory"],
+    queryFn: () => searchStorage.listHistory(),
+    staleTime: Infinity,
+  });
+};
+
+export const useAddSearchHistory = (
+  options?: UseMutationOptions<SearchHistoryEntry, Error, StoredSearch>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (search: StoredSearch) => searchStorage.addToHistory(search),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["searchHistory"] });
+    },
+    ...options,
+  });
+};
+
+export const useDeleteSearchHistoryEntry = (
+  options?: UseMutationOptions<void, Error, string>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entryId: string) => searchStorage.deleteHistoryEntry(entryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["searchHistory"] });
+    },
+    ...options,
+  });
+};
+
+export const useClearSearchHistory = (
+  options?: UseMutationOptions<void, Error, void>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => searchStorage.clearHistory(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["searchHistory"] });
+    },
+    ...options,
+  });
+};
+
+export const useSavedSearches = () => {
+  return useQuery({
+    queryKey: ["savedSearches"],
+    queryFn: () => searchStorage.listSavedSearches(),
+    staleTime: Infinity,
+  });
+};
+
+export const useSaveSearch = (
+  options?: UseMutationOptions<SavedSearch, Error, SavedSearch>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (savedSearch: SavedSearch) =>
+      searchStorage.saveSearch(savedSearch),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["savedSearches"] });
+    },
+    ...options,
+  });
+};
+
+export const useDeleteSavedSearch = (
+  options?: UseMutationOptions<void, Error, string>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (savedSearchId: string) =>
+      searchStorage.deleteSavedSearch(savedSearchId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["savedSearches"] });
+    },
+    ...options,
+  });
+};
@@ -0,0 +1,83 @@
+// Citation markers such as [1] or [1, 3] that reference RAG sources by their
+// 1-based position in the sources list
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export const CITATION_HREF_PREFIX = "#cite-";
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+const parseMarker = (marker: string, maxCitation: number): number[] =>
+  marker
+    .split(",")
+    .map((part) => parseInt(part.trim(), 10))
+    .filter((n) => n >= 1 && n <= maxCitation);
+
+// Returns the set of source numbers referenced anywhere in the text
+export const extractCitations = (
+  text: string,
+  maxCitation: number
+): Set<number> => {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    parseMarker(match[1], maxCitation).forEach((n) => cited.add(n));
+  }
+  return cited;
+};
+
+const splitTextNode = (
+  node: MarkdownNode,
+  maxCitation: number
+): MarkdownNode[] => {
+  const text = node.value || "";
+  const parts: MarkdownNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const citations = parseMarker(match[1], maxCitation);
+    if (citations.length === 0) continue;
+
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      parts.push({ type: "text", value: text.slice(lastIndex, start) });
+    }
+    citations.forEach((n) => {
+      parts.push({
+        type: "link",
+        url: `${CITATION_HREF_PREFIX}${n}`,
+        children: [{ type: "text", value: String(n) }],
+      });
+    });
+    lastIndex = start + match[0].length;
+  }
+
+  if (parts.length === 0) return [node];
+  if (lastIndex < text.length) {
+    parts.push({ type: "text", value: text.slice(lastIndex) });
+  }
+  return parts;
+};
+
+const transformChildren = (node: MarkdownNode, maxCitation: number) => {
+  if (!node.children || node.type === "link") return;
+
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text") return splitTextNode(child, maxCitation);
+    transformChildren(child, maxCitation);
+    return [child];
+  });
+};
+
+// Remark plugin that turns citation markers in prose into links pointing at
+// CITATION_HREF_PREFIX + n. Code spans and blocks are left untouched.
+export const remarkCitations =
+  ({ maxCitation }: { maxCitation: number }) =>
+  (tree: MarkdownNode) => {
+    if (maxCitation > 0) {
+      transformChildren(tree, maxCitation);
+    }
+  };
@@ -0,0 +1,9 @@
+import type { DocumentDetails, DocumentListResponse } from "../types/api";
+
+// Folder listings return data.files rather than documents
+export const getListedDocuments = (
+  response: DocumentListResponse
+): DocumentDetails[] => response.data?.files || response.documents || [];
+
+export const getDocumentName = (document: DocumentDetails): string =>
+  document.title || document.name || "Untitled Document";
@@ -0,0 +1,166 @@
+import type { DocumentDetails, DriveFolder } from "../types/api";
+import { getDocumentName } from "./documents";
+
+// The sidebar loads the folder hierarchy one level at a time. Each open
+// folder has its own subfolder and document queries; the tree is flattened
+// into rows for rendering.
+
+export interface FolderBranch<T> {
+  data?: T[];
+  isLoading: boolean;
+  error?: unknown;
+  // Paged branches (documents) can have further pages
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  // Everything in the branch, loaded or not, when the backend reports it
+  total?: number;
+}
+
+export type FolderTreeRow =
+  | {
+      kind: "folder";
+      key: string;
+      level: number;
+      folder: DriveFolder;
+      isExpanded: boolean;
+    }
+  | {
+      kind: "document";
+      key: string;
+      level: number;
+      folderId: string;
+      document: DocumentDetails;
+    }
+  | { kind: "loading"; key: string; level: number; folderId: string }
+  | { kind: "loadMore"; key: string; level: number; folderId: string }
+  | {
+      kind: "error";
+      key: string;
+      level: number;
+      folderId: string;
+      message: string;
+    };
+
+interface FolderTreeSource {
+  expandedFolderIds: Set<string>;
+  getSubfolders: (parentId?: string) => FolderBranch<DriveFolder>;
+  getDocuments: (folderId: string) => FolderBranch<DocumentDetails>;
+  // Case-insensitive name filter over what is loaded
+  filter?: string;
+}
+
+// Walks loaded folders below parentId, descending only into folders that
+// pass include. Returns ids in tree order.
+export const collectFolderIds = (
+  parentId: string | undefined,
+  getSubfolders: (parentId?: string) => DriveFolder[] | undefined,
+  include: (folderId: string) => boolean = () => true
+): string[] => {
+  const ids: string[] = [];
+  const visit = (id?: string) => {
+    getSubfolders(id)?.forEach((folder) => {
+      if (!include(folder.id)) return;
+      ids.push(folder.id);
+      visit(folder.id);
+    });
+  };
+  visit(parentId);
+  return ids;
+};
+
+const getErrorMessage = (error: unknown): string =>
+  (error as { message?: string })?.message || "Failed to load";
+
+export const buildFolderTreeRows = ({
+  expandedFolderIds,
+  getSubfolders,
+  getDocuments,
+  filter = "",
+}: FolderTreeSource): FolderTreeRow[] => {
+  const query = filter.trim().toLowerCase();
+  const matches = (name: string) => name.toLowerCase().includes(query);
+
+  const buildBranch = (folderId: string, level: number): FolderTreeRow[] => {
+    const subfolders = getSubfolders(folderId);
+    const documents = getDocuments(folderId);
+
+    if (subfolders.error || (documents.error && !documents.data)) {
+      return [
+        {
+          kind: "error",
+          key: `status:${folderId}`,
+          level,
+          folderId,
+          message: getErrorMessage(subfolders.error || documents.error),
+        },
+      ];
+    }
+    if (subfolders.isLoading || documents.isLoading) {
+      return [{ kind: "loading", key: `status:${folderId}`, level, folderId }];
+    }
+
+    const rows: FolderTreeRow[] = [
+      ...buildFolders(folderId, level),
+      ...(documents.data || [])
+        .filter((document) => !query || matches(getDocumentName(document)))
+        .map<FolderTreeRow>((document) => ({
+          kind: "document",
+          key: `document:${folderId}:${document.id}`,
+          level,
+          folderId,
+          document,
+        })),
+    ];
+
+    // Trailing row for the next page of documents
+    const pageKey = `page:${folderId}`;
+    if (documents.error) {
+      rows.push({
+        kind: "error",
+        key: pageKey,
+        level,
+        folderId,
+        message: getErrorMessage(documents.error),
+      });
+    } else if (documents.isLoadingMore) {
+      rows.push({ kind: "loading", key: pageKey, level, folderId });
+    } else if (documents.hasMore) {
+      rows.push({ kind: "loadMore", key: pageKey, level, folderId });
+    }
+
+    return rows;
+  };
+
+  const buildFolders = (
+    parentId: string | undefined,
+    level: number
+  ): FolderTreeRow[] =>
+    (getSubfolders(parentId).data || []).flatMap((folder) => {
+      const isExpanded = expandedFolderIds.has(folder.id);
+      const children = isExpanded ? buildBranch(folder.id, level + 1) : [];
+
+      // While filtering, folders stay for their own name or a visible match
+      if (
+        query &&
+        !matches(folder.name) &&
+        !children.some(
+          (row) => row.kind === "folder" || row.kind === "document"
+        )
+      ) {
+        return [];
+      }
+
+      return [
+        {
+          kind: "folder" as const,
+          key: `folder:${folder.id}`,
+          level,
+          folder,
+          isExpanded,
+        },
+        ...children,
+      ];
+    });
+
+  return buildFolders(undefined, 0);
+};
@@ -0,0 +1,76 @@
+// Subsequence matching for the command palette: every query character must
+// appear in order. Matches at word starts and runs of consecutive characters
+// rank higher, so "ss" prefers "Saved Searches" over "class".
+
+export interface FuzzyMatch {
+  score: number;
+  // Positions in the text that matched, for highlighting
+  indices: number[];
+}
+
+const WORD_START_BONUS = 8;
+const CONSECUTIVE_BONUS = 5;
+const PREFIX_BONUS = 10;
+
+const isWordStart = (text: string, index: number): boolean =>
+  index === 0 ||
+  /[\s_\-./:]/.test(text[index - 1]) ||
+  (/[a-z]/.test(text[index - 1]) && /[A-Z]/.test(text[index]));
+
+const isSubsequence = (needle: string, haystack: string, from: number) => {
+  let position = from;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position);
+    if (position === -1) return false;
+    position++;
+  }
+  return true;
+};
+
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  const characters = needle.replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  if (!isSubsequence(characters, haystack, 0)) return null;
+
+  const indices: number[] = [];
+  let score = 0;
+  let position = 0;
+
+  for (let k = 0; k < characters.length; k++) {
+    const char = characters[k];
+    const next = haystack.indexOf(char, position);
+
+    // Prefer a later word start holding this character over the first hit,
+    // as long as the rest of the query still fits after it
+    let index = next;
+    if (indices.length === 0 || indices[indices.length - 1] !== next - 1) {
+      for (let i = next; i < haystack.length; i++) {
+        if (
+          haystack[i] === char &&
+          isWordStart(text, i) &&
+          isSubsequence(characters.slice(k + 1), haystack, i + 1)
+        ) {
+          index = i;
+          break;
+        }
+      }
+    }
+
+    score += 1;
+    if (isWordStart(text, index)) score += WORD_START_BONUS;
+    if (indices.length > 0 && indices[indices.length - 1] === index - 1) {
+      score += CONSECUTIVE_BONUS;
+    }
+    indices.push(index);
+    position = index + 1;
+  }
+
+  if (haystack.startsWith(needle)) score += PREFIX_BONUS;
+  // Shorter texts win ties: the match covers more of them
+  score -= text.length / 100;
+
+  return { score, indices };
+};
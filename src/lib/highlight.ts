@@ -0,0 +1,186 @@
+import type { TextRange } from "../types/api";
+
+// Finds where search terms occur in a piece of text. Matching ignores case and
+// diacritics ("resume" finds "Résumé"), and single words match other forms of
+// the same word ("report" finds "reports" and "reporting"). Terms with
+// punctuation, like "c++" or "node.js", are matched literally. Nothing here
+// builds a RegExp from user input.
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// Text lowercased with diacritics removed, plus where each folded character
+// came from in the original. Offsets are omitted for plain ASCII, where both
+// line up.
+interface FoldedText {
+  text: string;
+  offsets?: number[];
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const WHOLE_WORD_PATTERN = /^[\p{L}\p{N}]+$/u;
+const COMBINING_MARKS = /\p{M}/gu;
+const NON_ASCII = /[^\p{ASCII}]/u;
+const VOWELS = /[aeiouy]/;
+// Shorter terms only match whole words, so "a" doesn't light up every word
+const MIN_PREFIX_LENGTH = 2;
+
+const foldCharacters = (text: string): string =>
+  text.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+
+const foldText = (text: string): FoldedText => {
+  if (!NON_ASCII.test(text)) return { text: text.toLowerCase() };
+
+  let folded = "";
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const foldedChar = foldCharacters(char);
+    for (let i = 0; i < foldedChar.length; i++) offsets.push(index);
+    folded += foldedChar;
+    index += char.length;
+  }
+  offsets.push(text.length);
+  return { text: folded, offsets };
+};
+
+const toOriginalRange = (
+  folded: FoldedText,
+  start: number,
+  end: number
+): TextRange =>
+  folded.offsets
+    ? { start: folded.offsets[start], end: folded.offsets[end] }
+    : { start, end };
+
+// Light suffix stripping, enough for plurals and -ed/-ing/-ly forms to meet:
+// "studies", "studied" and "study" all become "studi"
+export const stemWord = (word: string): string => {
+  if (word.length <= 3) return word;
+
+  let stem = word;
+  if (stem.endsWith("sses")) stem = stem.slice(0, -2);
+  else if (stem.endsWith("ies")) stem = stem.slice(0, -2);
+  else if (stem.endsWith("s") && !stem.endsWith("ss")) stem = stem.slice(0, -1);
+
+  for (const suffix of ["ingly", "edly", "ing", "ed", "ly"]) {
+    const base = stem.slice(0, -suffix.length);
+    if (stem.endsWith(suffix) && VOWELS.test(base)) {
+      // "running" -> "runn" -> "run"
+      stem = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;
+      break;
+    }
+  }
+
+  stem = stem.replace(/y$/, "i").replace(/e$/, "");
+  return stem.length >= 2 ? stem : word;
+};
+
+// Splits a query into terms; accepts a list when phrases were already parsed
+export const getHighlightTerms = (query: string | string[]): string[] =>
+  (Array.isArray(query) ? query : query.split(/\s+/))
+    .map((term) => term.trim().replace(/^"|"$/g, ""))
+    .filter(Boolean);
+
+// Sorts ranges and merges any that overlap or touch
+export const mergeHighlightRanges = (ranges: TextRange[]): TextRange[] => {
+  const sorted = ranges
+    .filter((range) => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+
+  sorted.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return merged;
+};
+
+export const findHighlightRanges = (
+  text: string,
+  query: string | string[]
+): TextRange[] => {
+  const terms = getHighlightTerms(query);
+  if (!text || terms.length === 0) return [];
+
+  const folded = foldText(text);
+  const ranges: TextRange[] = [];
+  let words: Array<{ text: string; stem: string; start: number }> | null = null;
+
+  terms.forEach((term) => {
+    const foldedTerm = foldCharacters(term);
+
+    if (WHOLE_WORD_PATTERN.test(foldedTerm)) {
+      words ??= Array.from(folded.text.matchAll(WORD_PATTERN), (match) => ({
+        text: match[0],
+        stem: stemWord(match[0]),
+        start: match.index,
+      }));
+      const termStem = stemWord(foldedTerm);
+
+      words.forEach((word) => {
+        if (word.stem === termStem) {
+          ranges.push(
+            toOriginalRange(folded, word.start, word.start + word.text.length)
+          );
+        } else if (
+          foldedTerm.length >= MIN_PREFIX_LENGTH &&
+          word.text.startsWith(foldedTerm)
+        ) {
+          ranges.push(
+            toOriginalRange(folded, word.start, word.start + foldedTerm.length)
+          );
+        }
+      });
+      return;
+    }
+
+    let index = folded.text.indexOf(foldedTerm);
+    while (index !== -1) {
+      ranges.push(toOriginalRange(folded, index, index + foldedTerm.length));
+      index = folded.text.indexOf(foldedTerm, index + 1);
+    }
+  });
+
+  return mergeHighlightRanges(ranges);
+};
+
+// Cuts text into plain and matching segments. Ranges given by the server win
+// over matching the query locally.
+export const getHighlightSegments = (
+  text: string,
+  query: string | string[] = "",
+  ranges?: TextRange[]
+): HighlightSegment[] => {
+  const matches =
+    ranges && ranges.length > 0
+      ? mergeHighlightRanges(
+          ranges.map(({ start, end }) => ({
+            start: Math.max(0, start),
+            end: Math.min(text.length, end),
+          }))
+        )
+      : findHighlightRanges(text, query);
+
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  matches.forEach(({ start, end }) => {
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), isMatch: false });
+    }
+    segments.push({ text: text.slice(start, end), isMatch: true });
+    position = end;
+  });
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), isMatch: false });
+  }
+
+  return segments;
+};
@@ -0,0 +1,57 @@
+import type { DocumentDetails, IndexedDocument } from "../types/api";
+
+// Where a Drive document stands against the search index. "stale" means the
+// file changed in Drive after it was last indexed.
+export type IndexStatus = "indexed" | "notIndexed" | "stale" | "failed";
+
+export const INDEX_STATUS_LABELS: Record<IndexStatus, string> = {
+  indexed: "Indexed",
+  notIndexed: "Not indexed",
+  stale: "Stale",
+  failed: "Failed",
+};
+
+export type IndexStatusCounts = Record<IndexStatus, number>;
+
+const parseTime = (date?: string): number | undefined => {
+  const time = date ? Date.parse(date) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export const getIndexStatus = (
+  document: DocumentDetails,
+  indexed?: IndexedDocument
+): IndexStatus => {
+  if (!indexed) return "notIndexed";
+  if (indexed.status === "failed") return "failed";
+
+  const modifiedAt = parseTime(document.metadata?.dateModified);
+  const indexedAt = parseTime(indexed.dateIndexed);
+  if (modifiedAt !== undefined && indexedAt !== undefined) {
+    return modifiedAt > indexedAt ? "stale" : "indexed";
+  }
+  return "indexed";
+};
+
+export const countIndexStatuses = (
+  statuses: IndexStatus[]
+): IndexStatusCounts => {
+  const counts: IndexStatusCounts = {
+    indexed: 0,
+    notIndexed: 0,
+    stale: 0,
+    failed: 0,
+  };
+  statuses.forEach((status) => counts[status]++);
+  return counts;
+};
+
+// "10 indexed, 2 stale, 28 not indexed"
+export const describeIndexStatusCounts = (counts: IndexStatusCounts) =>
+  (Object.keys(INDEX_STATUS_LABELS) as IndexStatus[])
+    .filter((status) => counts[status] > 0)
+    .map(
+      (status) =>
+        `${counts[status]} ${INDEX_STATUS_LABELS[status].toLowerCase()}`
+    )
+    .join(", ");
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import { parseSearchQuery, toSemanticSearchRequest } from "./queryParser";
+
+describe("parseSearchQuery", () => {
+  it("keeps plain words as the semantic query", () => {
+    const parsed = parseSearchQuery("quarterly revenue");
+
+    expect(parsed.text).toBe("quarterly revenue");
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.tokens.map((token) => token.kind)).toEqual(["text", "text"]);
+  });
+
+  it("parses type: into lowercase file types without leading dots", () => {
+    const parsed = parseSearchQuery("budget type:PDF,.docx type:pdf");
+
+    expect(parsed.fileTypes).toEqual(["pdf", "docx"]);
+    expect(parsed.text).toBe("budget");
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it("parses a quoted folder name", () => {
+    const parsed = parseSearchQuery('revenue folder:"Q3 Reports"');
+
+    expect(parsed.folderName).toBe("Q3 Reports");
+    expect(parsed.text).toBe("revenue");
+    expect(parsed.tokens[1]).toMatchObject({
+      kind: "folder",
+      raw: 'folder:"Q3 Reports"',
+      value: "Q3 Reports",
+      start: 8,
+      end: 27,
+    });
+  });
+
+  it("allows only one folder: operator", () => {
+    const parsed = parseSearchQuery("revenue folder:A folder:B");
+
+    expect(parsed.folderName).toBe("A");
+    expect(parsed.errors).toHaveLength(1);
+    expect(parsed.errors[0].message).toMatch(/Only one folder:/);
+  });
+
+  it("parses after: dates", () => {
+    const parsed = parseSearchQuery("policy after:2024-01-31");
+
+    expect(parsed.createdAfter).toBe("2024-01-31");
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it("rejects after: values that are not real dates", () => {
+    for (const value of ["2024-02-30", "31-01-2024", "yesterday"]) {
+      const parsed = parseSearchQuery(`policy after:${value}`);
+
+      expect(parsed.createdAfter).toBeUndefined();
+      expect(parsed.errors).toHaveLength(1);
+      expect(parsed.errors[0].message).toContain(`got "${value}"`);
+    }
+  });
+
+  it("collects excluded terms and phrases", () => {
+    const parsed = parseSearchQuery('report -draft -"old version"');
+
+    expect(parsed.excludeTerms).toEqual(["draft", "old version"]);
+    expect(parsed.text).toBe("report");
+  });
+
+  it("reports a lone - with quotes as an error", () => {
+    const parsed = parseSearchQuery('report -""');
+
+    expect(parsed.excludeTerms).toEqual([]);
+    expect(parsed.errors[0].message).toBe("Nothing to exclude after -");
+  });
+
+  it("requires exact phrases and keeps them in the query text", () => {
+    const parsed = parseSearchQuery('"data retention" policy');
+
+    expect(parsed.phrases).toEqual(["data retention"]);
+    expect(parsed.text).toBe("data retention policy");
+  });
+
+  it("reports unknown operators with their position", () => {
+    const parsed = parseSearchQuery("report owner:alice");
+
+    expect(parsed.tokens[1].kind).toBe("invalid");
+    expect(parsed.errors).toEqual([
+      {
+        message: 'Unknown operator "owner:". Use type:, folder:, after:',
+        start: 7,
+        end: 18,
+      },
+    ]);
+  });
+
+  it("reports operators without a value", () => {
+    const parsed = parseSearchQuery("report type:");
+
+    expect(parsed.fileTypes).toEqual([]);
+    expect(parsed.errors[0].message).toBe("type: needs a value");
+  });
+
+  it("treats URLs and a trailing colon as plain text", () => {
+    const parsed = parseSearchQuery("note: https://example.com");
+
+    expect(parsed.text).toBe("note: https://example.com");
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it("reports unbalanced quotes", () => {
+    const parsed = parseSearchQuery('revenue "q3 results');
+
+    expect(parsed.phrases).toEqual([]);
+    expect(parsed.text).toBe("revenue");
+    expect(parsed.errors).toEqual([
+      {
+        message: 'Missing closing quote in "q3 results',
+        start: 8,
+        end: 19,
+      },
+    ]);
+  });
+
+  it("asks for search text when the query only has operators", () => {
+    const parsed = parseSearchQuery("type:pdf after:2024-01-01");
+
+    expect(parsed.text).toBe("");
+    expect(parsed.errors).toHaveLength(1);
+    expect(parsed.errors[0].message).toBe(
+      "Add some search text alongside the operators"
+    );
+  });
+});
+
+describe("toSemanticSearchRequest", () => {
+  it("maps parsed fields onto the request", () => {
+    const parsed = parseSearchQuery(
+      'revenue type:pdf folder:"Q3 Reports" after:2024-01-01 -draft "net income"'
+    );
+
+    expect(toSemanticSearchRequest(parsed)).toEqual({
+      query: "revenue net income",
+      fileTypes: ["pdf"],
+      folderName: "Q3 Reports",
+      createdAfter: "2024-01-01",
+      phrases: ["net income"],
+      excludeTerms: ["draft"],
+    });
+  });
+
+  it("merges list fields with the base request without duplicates", () => {
+    const parsed = parseSearchQuery('revenue type:pdf,docx -draft "q3"');
+
+    const request = toSemanticSearchRequest(parsed, {
+      fileTypes: ["pdf", "xlsx"],
+      phrases: ["annual"],
+      excludeTerms: ["copy"],
+    });
+
+    expect(request.fileTypes).toEqual(["pdf", "xlsx", "docx"]);
+    expect(request.phrases).toEqual(["annual", "q3"]);
+    expect(request.excludeTerms).toEqual(["copy", "draft"]);
+  });
+
+  it("lets scalar fields in the base request win", () => {
+    const parsed = parseSearchQuery("revenue folder:Reports after:2024-01-01");
+
+    const request = toSemanticSearchRequest(parsed, {
+      folderName: "Archive",
+      createdAfter: "2023-06-01",
+      limit: 20,
+      threshold: 0.5,
+    });
+
+    expect(request).toMatchObject({
+      query: "revenue",
+      folderName: "Archive",
+      createdAfter: "2023-06-01",
+      limit: 20,
+      threshold: 0.5,
+    });
+  });
+
+  it("leaves empty lists out of the request", () => {
+    const request = toSemanticSearchRequest(parseSearchQuery("revenue"));
+
+    expect(request).toEqual({
+      query: "revenue",
+      fileTypes: undefined,
+      folderName: undefined,
+      createdAfter: undefined,
+      phrases: undefined,
+      excludeTerms: undefined,
+    });
+  });
+});
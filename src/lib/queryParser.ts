@@ -0,0 +1,255 @@
+import type { SemanticSearchRequest } from "../types/api";
+
+// Search query syntax understood by the search bar:
+//
+//   type:pdf  type:pdf,docx      restrict to file types
+//   folder:Reports  folder:"Q3 Reports"
+//   after:2024-01-01             documents created on or after a date
+//   -draft  -"old version"       exclude a term or phrase
+//   "exact phrase"               require a phrase
+//
+// Everything else is free text and becomes the semantic query.
+
+export type QueryTokenKind =
+  | "text"
+  | "phrase"
+  | "exclude"
+  | "type"
+  | "folder"
+  | "after"
+  | "invalid";
+
+export interface QueryToken {
+  kind: QueryTokenKind;
+  // Position of the token in the raw query, end exclusive
+  start: number;
+  end: number;
+  raw: string;
+  value: string;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  // Free text and phrases, sent as the semantic query
+  text: string;
+  phrases: string[];
+  excludeTerms: string[];
+  fileTypes: string[];
+  folderName?: string;
+  createdAfter?: string;
+  tokens: QueryToken[];
+  errors: QueryError[];
+}
+
+const OPERATORS = ["type", "folder", "after"] as const;
+type Operator = (typeof OPERATORS)[number];
+
+const OPERATOR_PATTERN = /^([a-z]+):(.*)$/is;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isOperator = (name: string): name is Operator =>
+  (OPERATORS as readonly string[]).includes(name);
+
+const isValidDate = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const unquote = (value: string): string =>
+  value.startsWith('"') ? value.replace(/^"|"$/g, "") : value;
+
+// Splits the query on whitespace, keeping quoted sections together
+const splitWords = (
+  input: string
+): Array<{ raw: string; start: number; end: number }> => {
+  const words: Array<{ raw: string; start: number; end: number }> = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let inQuotes = false;
+    while (index < input.length && (inQuotes || !/\s/.test(input[index]))) {
+      if (input[index] === '"') inQuotes = !inQuotes;
+      index++;
+    }
+    words.push({ raw: input.slice(start, index), start, end: index });
+  }
+
+  return words;
+};
+
+const hasUnbalancedQuotes = (raw: string): boolean =>
+  (raw.match(/"/g) || []).length % 2 === 1;
+
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = {
+    text: "",
+    phrases: [],
+    excludeTerms: [],
+    fileTypes: [],
+    tokens: [],
+    errors: [],
+  };
+  const textParts: string[] = [];
+
+  const addToken = (
+    kind: QueryTokenKind,
+    word: { raw: string; start: number; end: number },
+    value: string
+  ) => {
+    parsed.tokens.push({ kind, value, ...word });
+  };
+
+  const addError = (
+    word: { raw: string; start: number; end: number },
+    message: string
+  ) => {
+    addToken("invalid", word, word.raw);
+    parsed.errors.push({ message, start: word.start, end: word.end });
+  };
+
+  splitWords(input).forEach((word) => {
+    const { raw } = word;
+
+    if (hasUnbalancedQuotes(raw)) {
+      addError(word, `Missing closing quote in ${raw}`);
+      return;
+    }
+
+    // Exclusions: -term or -"some phrase"
+    if (raw.length > 1 && raw.startsWith("-")) {
+      const value = unquote(raw.slice(1));
+      if (!value) {
+        addError(word, "Nothing to exclude after -");
+        return;
+      }
+      parsed.excludeTerms.push(value);
+      addToken("exclude", word, value);
+      return;
+    }
+
+    if (raw.startsWith('"')) {
+      const value = unquote(raw);
+      if (!value) {
+        addError(word, "Empty phrase");
+        return;
+      }
+      parsed.phrases.push(value);
+      textParts.push(value);
+      addToken("phrase", word, value);
+      return;
+    }
+
+    const operatorMatch = raw.match(OPERATOR_PATTERN);
+    const name = operatorMatch?.[1].toLowerCase() || "";
+    const rawValue = operatorMatch?.[2] || "";
+
+    // "note:" on its own or a URL is plain text, not an operator
+    if (
+      !operatorMatch ||
+      (!isOperator(name) && (!rawValue || rawValue.startsWith("//")))
+    ) {
+      textParts.push(raw);
+      addToken("text", word, raw);
+      return;
+    }
+
+    const value = unquote(rawValue);
+
+    if (!isOperator(name)) {
+      addError(
+        word,
+        `Unknown operator "${name}:". Use ${OPERATORS.map((op) => `${op}:`).join(", ")}`
+      );
+      return;
+    }
+
+    if (!value) {
+      addError(word, `${name}: needs a value`);
+      return;
+    }
+
+    switch (name) {
+      case "type": {
+        const fileTypes = value
+          .split(",")
+          .map((type) => type.trim().replace(/^\./, "").toLowerCase())
+          .filter(Boolean);
+        if (fileTypes.length === 0) {
+          addError(word, "type: needs a file type, e.g. type:pdf");
+          return;
+        }
+        parsed.fileTypes.push(
+          ...fileTypes.filter((type) => !parsed.fileTypes.includes(type))
+        );
+        addToken("type", word, fileTypes.join(","));
+        return;
+      }
+      case "folder":
+        if (parsed.folderName !== undefined) {
+          addError(word, "Only one folder: operator is allowed");
+          return;
+        }
+        parsed.folderName = value;
+        addToken("folder", word, value);
+        return;
+      case "after":
+        if (!isValidDate(value)) {
+          addError(
+            word,
+            `after: expects a date like 2024-01-31, got "${value}"`
+          );
+          return;
+        }
+        parsed.createdAfter = value;
+        addToken("after", word, value);
+        return;
+    }
+  });
+
+  parsed.text = textParts.join(" ");
+
+  if (!parsed.text && parsed.errors.length === 0 && parsed.tokens.length > 0) {
+    parsed.errors.push({
+      message: "Add some search text alongside the operators",
+      start: 0,
+      end: input.length,
+    });
+  }
+
+  return parsed;
+};
+
+// Maps a parsed query onto the search request; explicit values in base win
+// for scalar fields and are merged for lists.
+export const toSemanticSearchRequest = (
+  parsed: ParsedSearchQuery,
+  base: Omit<SemanticSearchRequest, "query"> = {}
+): SemanticSearchRequest => {
+  const fileTypes = [
+    ...new Set([...(base.fileTypes || []), ...parsed.fileTypes]),
+  ];
+  const phrases = [...(base.phrases || []), ...parsed.phrases];
+  const excludeTerms = [...(base.excludeTerms || []), ...parsed.excludeTerms];
+
+  return {
+    ...base,
+    query: parsed.text,
+    fileTypes: fileTypes.length > 0 ? fileTypes : undefined,
+    folderName: base.folderName ?? parsed.folderName,
+    createdAfter: base.createdAfter ?? parsed.createdAfter,
+    phrases: phrases.length > 0 ? phrases : undefined,
+    excludeTerms: excludeTerms.length > 0 ? excludeTerms : undefined,
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { fuseRankedResults, RRF_K } from "./rankFusion";
+import type { SearchResult } from "../types/api";
+
+const semantic = (documentId: string, score: number): SearchResult => ({
+  documentId,
+  chunkIndex: 0,
+  score,
+  retrievers: ["semantic"],
+});
+
+const keyword = (documentId: string, score: number): SearchResult => ({
+  documentId,
+  chunkIndex: 0,
+  score,
+  retrievers: ["keyword"],
+});
+
+describe("fuseRankedResults", () => {
+  it("ranks results found by both retrievers above single-retriever ones", () => {
+    const fused = fuseRankedResults([
+      [semantic("a", 0.9), semantic("b", 0.8)],
+      [keyword("c", 42), keyword("b", 12)],
+    ]);
+
+    expect(fused.map((result) => result.documentId)).toEqual(["b", "a", "c"]);
+  });
+
+  it("replaces raw scores with the fused score and each retriever's own", () => {
+    const [merged] = fuseRankedResults([
+      [semantic("a", 0.9)],
+      [keyword("a", 42)],
+    ]);
+
+    expect(merged.score).toBeUndefined();
+    expect(merged.fusedScore).toBeCloseTo(2 / (RRF_K + 1));
+    expect(merged.retrievers).toEqual(["semantic", "keyword"]);
+    expect(merged.retrieverScores).toEqual({ semantic: 0.9, keyword: 42 });
+  });
+});
@@ -0,0 +1,65 @@
+import type { SearchResult, SearchRetriever } from "../types/api";
+import { getSearchResultKey } from "./searchResults";
+
+// Damping constant from the original reciprocal rank fusion paper; it keeps a
+// single top rank from outweighing agreement between retrievers.
+export const RRF_K = 60;
+
+const getRetrieverScores = (
+  result: SearchResult
+): Partial<Record<SearchRetriever, number>> =>
+  result.score === undefined
+    ? {}
+    : Object.fromEntries(
+        (result.retrievers || []).map((retriever) => [retriever, result.score])
+      );
+
+// Merges ranked result lists with reciprocal rank fusion: each result scores
+// the sum of 1 / (k + rank) over the lists it appears in. Results found by
+// several retrievers are merged, keeping every retriever and its own score.
+// The raw scores aren't comparable, so fused results carry fusedScore instead.
+export const fuseRankedResults = (
+  rankings: SearchResult[][],
+  k: number = RRF_K
+): SearchResult[] => {
+  const fused = new Map<string, { result: SearchResult; fusedScore: number }>();
+
+  rankings.forEach((results) => {
+    results.forEach((result, index) => {
+      const key = getSearchResultKey(result);
+      const rankScore = 1 / (k + index + 1);
+      const existing = fused.get(key);
+
+      if (!existing) {
+        fused.set(key, {
+          result: { ...result, retrieverScores: getRetrieverScores(result) },
+          fusedScore: rankScore,
+        });
+        return;
+      }
+
+      existing.fusedScore += rankScore;
+      existing.result = {
+        ...existing.result,
+        retrievers: [
+          ...new Set([
+            ...(existing.result.retrievers || []),
+            ...(result.retrievers || []),
+          ]),
+        ],
+        retrieverScores: {
+          ...existing.result.retrieverScores,
+          ...getRetrieverScores(result),
+        },
+      };
+    });
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.fusedScore - a.fusedScore)
+    .map(({ result, fusedScore }) => ({
+      ...result,
+      score: undefined,
+      fusedScore,
+    }));
+};
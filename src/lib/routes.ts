@@ -0,0 +1,120 @@
+// URL structure of the app. Views live in the path; the search query and the
+// folder/document scope live in query params so they survive view changes.
+//
+//   /                          new chat
+//   /chat/:sessionId           saved chat session
+//   /search?q=                 search results
+//   /doc/:id                   document preview (over search results when q is set)
+//   /doc/:id/chunk/:n          document preview focused on chunk n
+//   /compare                   document comparison workspace
+//
+// Every view accepts ?folder= or ?document= to scope searches and questions,
+// ?mode= for the search mode, plus the search filters: ?type= and ?doc=
+// (repeatable), ?threshold=, ?from= and ?to=.
+
+import type { SearchMode } from "../types/api";
+import {
+  DEFAULT_SEARCH_MODE,
+  SEARCH_MODES,
+  type SearchFilters,
+} from "../types/search";
+
+export const ROUTE_PATTERNS = {
+  chat: "/chat/:sessionId",
+  search: "/search",
+  document: "/doc/:documentId",
+  documentChunk: "/doc/:documentId/chunk/:chunkIndex",
+  compare: "/compare",
+} as const;
+
+export interface RouteParams extends SearchFilters {
+  q?: string;
+  folder?: string;
+  document?: string;
+  mode?: SearchMode;
+}
+
+const readThreshold = (value: string | null): number | undefined => {
+  const threshold = value ? Number(value) : NaN;
+  return threshold >= 0 && threshold <= 1 ? threshold : undefined;
+};
+
+// Unknown modes and the default mode are left out of the URL
+const readMode = (value: string | null): SearchMode | undefined =>
+  SEARCH_MODES.find((mode) => mode === value && mode !== DEFAULT_SEARCH_MODE);
+
+const readList = (values: string[]): string[] | undefined =>
+  values.length > 0 ? values : undefined;
+
+export const readRouteParams = (
+  searchParams: URLSearchParams
+): RouteParams => ({
+  q: searchParams.get("q") || undefined,
+  folder: searchParams.get("folder") || undefined,
+  document: searchParams.get("document") || undefined,
+  mode: readMode(searchParams.get("mode")),
+  fileTypes: readList(searchParams.getAll("type")),
+  threshold: readThreshold(searchParams.get("threshold")),
+  dateFrom: searchParams.get("from") || undefined,
+  dateTo: searchParams.get("to") || undefined,
+  documentIds: readList(searchParams.getAll("doc")),
+});
+
+// Picks the search filters out of the route params
+export const getSearchFilters = ({
+  fileTypes,
+  threshold,
+  dateFrom,
+  dateTo,
+  documentIds,
+}: RouteParams): SearchFilters => ({
+  fileTypes,
+  threshold,
+  dateFrom,
+  dateTo,
+  documentIds,
+});
+
+const toQueryString = (params: RouteParams): string => {
+  const searchParams = new URLSearchParams();
+  if (params.q) searchParams.set("q", params.q);
+  if (params.folder) searchParams.set("folder", params.folder);
+  if (params.document) searchParams.set("document", params.document);
+  if (params.mode && params.mode !== DEFAULT_SEARCH_MODE) {
+    searchParams.set("mode", params.mode);
+  }
+  params.fileTypes?.forEach((type) => searchParams.append("type", type));
+  if (params.threshold !== undefined) {
+    searchParams.set("threshold", String(params.threshold));
+  }
+  if (params.dateFrom) searchParams.set("from", params.dateFrom);
+  if (params.dateTo) searchParams.set("to", params.dateTo);
+  params.documentIds?.forEach((id) => searchParams.append("doc", id));
+  const query = searchParams.toString();
+  return query ? `?${query}` : "";
+};
+
+export const routes = {
+  chat: (sessionId?: string | null, params: RouteParams = {}) =>
+    `${sessionId ? `/chat/${encodeURIComponent(sessionId)}` : "/"}${toQueryString(params)}`,
+  search: (params: RouteParams) => `/search${toQueryString(params)}`,
+  document: (
+    documentId: string,
+    chunkIndex?: number | null,
+    params: RouteParams = {}
+  ) =>
+    `/doc/${encodeURIComponent(documentId)}${
+      chunkIndex !== undefined && chunkIndex !== null
+        ? `/chunk/${chunkIndex + 1}`
+        : ""
+    }${toQueryString(params)}`,
+  compare: (params: RouteParams = {}) => `/compare${toQueryString(params)}`,
+  withParams: (pathname: string, params: RouteParams) =>
+    `${pathname}${toQueryString(params)}`,
+};
+
+// Chunk numbers in URLs are 1-based to match what the preview shows
+export const parseChunkParam = (value?: string): number | null => {
+  const chunk = Number(value);
+  return Number.isInteger(chunk) && chunk >= 1 ? chunk - 1 : null;
+};
@@ -0,0 +1,100 @@
+import type {
+  SearchFacet,
+  SearchFacetBucket,
+  SearchFacetField,
+  SearchResult,
+} from "../types/api";
+import type { SearchFacetSelection } from "../types/search";
+
+const FACET_LABELS: Record<SearchFacetField, string> = {
+  fileType: "File type",
+  folderName: "Folder",
+  createdAt: "Created",
+};
+
+const FACET_FIELDS = Object.keys(FACET_LABELS) as SearchFacetField[];
+
+// Creation dates are bucketed by month, as YYYY-MM
+const getMonthValue = (date?: string): string | undefined => {
+  if (!date) return undefined;
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return undefined;
+  return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const getFacetValue = (
+  result: SearchResult,
+  field: SearchFacetField
+): string | undefined => {
+  switch (field) {
+    case "fileType":
+      return result.fileType || result.metadata?.fileType;
+    case "folderName":
+      return result.folderName;
+    case "createdAt":
+      return getMonthValue(result.metadata?.createdAt);
+  }
+};
+
+const getBucketLabel = (field: SearchFacetField, value: string): string =>
+  field === "createdAt"
+    ? new Date(`${value}-01T00:00:00`).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+      })
+    : value;
+
+const matchesSelection = (
+  result: SearchResult,
+  selection: SearchFacetSelection,
+  ignoredField?: SearchFacetField
+): boolean =>
+  FACET_FIELDS.every((field) => {
+    const selected = selection[field];
+    if (field === ignoredField || !selected?.length) return true;
+    const value = getFacetValue(result, field);
+    return !!value && selected.includes(value);
+  });
+
+export const filterResultsByFacets = (
+  results: SearchResult[],
+  selection: SearchFacetSelection
+): SearchResult[] =>
+  results.filter((result) => matchesSelection(result, selection));
+
+// Builds facets in the same shape the backend returns. Each facet is counted
+// over the results matching the other facets' selections, so picking a file
+// type narrows the folder counts but keeps the other file types visible.
+export const computeSearchFacets = (
+  results: SearchResult[],
+  selection: SearchFacetSelection = {}
+): SearchFacet[] =>
+  FACET_FIELDS.map((field) => {
+    const counts = new Map<string, number>();
+    results
+      .filter((result) => matchesSelection(result, selection, field))
+      .forEach((result) => {
+        const value = getFacetValue(result, field);
+        if (value) counts.set(value, (counts.get(value) || 0) + 1);
+      });
+
+    // Keep selected values listed so they can be deselected
+    selection[field]?.forEach((value) => {
+      if (!counts.has(value)) counts.set(value, 0);
+    });
+
+    const buckets: SearchFacetBucket[] = Array.from(
+      counts,
+      ([value, count]) => ({
+        value,
+        label: getBucketLabel(field, value),
+        count,
+      })
+    ).sort((a, b) =>
+      field === "createdAt"
+        ? b.value.localeCompare(a.value)
+        : b.count - a.count || a.label.localeCompare(b.label)
+    );
+
+    return { field, label: FACET_LABELS[field], buckets };
+  });
@@ -0,0 +1,93 @@
+import type { SearchResult, SemanticSearchRequest } from "../types/api";
+import {
+  DEFAULT_SEARCH_MODE,
+  SEARCH_MODE_LABELS,
+  type SearchFilters,
+  type StoredSearch,
+} from "../types/search";
+
+export const countActiveFilters = (filters: SearchFilters): number =>
+  (filters.fileTypes?.length || 0) +
+  (filters.documentIds?.length || 0) +
+  (filters.threshold !== undefined ? 1 : 0) +
+  (filters.dateFrom || filters.dateTo ? 1 : 0);
+
+// Keeps results whose dateIndexed falls inside the filter's date range.
+// Results without a date are kept, as there is nothing to compare.
+export const filterResultsByDateIndexed = (
+  results: SearchResult[],
+  { dateFrom, dateTo }: SearchFilters
+): SearchResult[] => {
+  if (!dateFrom && !dateTo) return results;
+
+  const from = dateFrom
+    ? new Date(`${dateFrom}T00:00:00`).getTime()
+    : -Infinity;
+  const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : Infinity;
+
+  return results.filter((result) => {
+    if (!result.dateIndexed) return true;
+    const indexedAt = new Date(result.dateIndexed).getTime();
+    return Number.isNaN(indexedAt) || (indexedAt >= from && indexedAt <= to);
+  });
+};
+
+const includesText = (haystack: string | undefined, needle: string) =>
+  !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+// Applies the query-syntax constraints to results, for backends that only
+// use the semantic query. Missing fields never exclude a result.
+export const filterResultsBySearchRequest = (
+  results: SearchResult[],
+  { folderName, createdAfter, phrases, excludeTerms }: SemanticSearchRequest
+): SearchResult[] => {
+  const after = createdAfter
+    ? new Date(`${createdAfter}T00:00:00`).getTime()
+    : undefined;
+
+  return results.filter((result) => {
+    const content = result.text || result.snippet;
+    const title = result.title || result.documentName || result.fileName;
+
+    if (
+      folderName &&
+      result.folderName &&
+      result.folderName.toLowerCase() !== folderName.toLowerCase()
+    ) {
+      return false;
+    }
+    if (after !== undefined && result.metadata?.createdAt) {
+      const createdAt = new Date(result.metadata.createdAt).getTime();
+      if (createdAt < after) return false;
+    }
+    if (content && phrases?.some((phrase) => !includesText(content, phrase))) {
+      return false;
+    }
+    return !excludeTerms?.some(
+      (term) => includesText(content, term) || includesText(title, term)
+    );
+  });
+};
+
+// Short summary of everything but the query, e.g. "Hybrid · pdf · ≥ 70%"
+export const describeStoredSearch = (search: StoredSearch): string => {
+  const parts: string[] = [];
+  if (search.mode && search.mode !== DEFAULT_SEARCH_MODE) {
+    parts.push(SEARCH_MODE_LABELS[search.mode]);
+  }
+  if (search.fileTypes?.length) parts.push(search.fileTypes.join(", "));
+  if (search.threshold !== undefined) {
+    parts.push(`≥ ${Math.round(search.threshold * 100)}%`);
+  }
+  if (search.dateFrom || search.dateTo) {
+    parts.push(`${search.dateFrom || "…"} – ${search.dateTo || "…"}`);
+  }
+  if (search.documentIds?.length) {
+    parts.push(
+      `${search.documentIds.length} document${search.documentIds.length === 1 ? "" : "s"}`
+    );
+  }
+  if (search.folder) parts.push("in folder");
+  if (search.document) parts.push("in document");
+  return parts.join(" · ");
+};
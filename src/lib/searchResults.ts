@@ -0,0 +1,95 @@
+import type { SearchResult } from "../types/api";
+import type { SearchResultItem, SearchResultSnippet } from "../types/search";
+
+// Identifies the chunk a search result points at. Results may carry the
+// document id and chunk index either at the top level or in metadata.
+export const getSearchResultKey = (result: SearchResult): string => {
+  const documentId =
+    result.documentId || result.metadata?.documentId || result.id || result._id;
+  const chunkIndex = result.chunkIndex ?? result.metadata?.chunkIndex;
+  return chunkIndex !== undefined
+    ? `${documentId}:${chunkIndex}`
+    : `${documentId}:${result._id || result.id || result.text || ""}`;
+};
+
+// Drops chunks already seen on an earlier page, keeping the first occurrence
+export const dedupeSearchResults = (
+  results: SearchResult[]
+): SearchResult[] => {
+  const seen = new Set<string>();
+  return results.filter((result) => {
+    const key = getSearchResultKey(result);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const getResultDocumentKey = (result: SearchResult): string =>
+  result.documentId ||
+  result.metadata?.documentId ||
+  result.id ||
+  result._id ||
+  getSearchResultKey(result);
+
+const byScore = (a?: number, b?: number) => (b ?? -1) - (a ?? -1);
+
+const toSnippet = (result: SearchResult): SearchResultSnippet => {
+  const text = result.text || result.snippet || "";
+  return {
+    id: getSearchResultKey(result),
+    chunkIndex: result.chunkIndex ?? result.metadata?.chunkIndex ?? 0,
+    text,
+    preview: result.snippet || text,
+    score: result.score,
+    highlights: result.text ? result.highlights : undefined,
+    metadata: { ...result.metadata },
+    result,
+  };
+};
+
+// Groups chunk-level results by document, keeping the order results came in:
+// documents by their first chunk, chunks by rank. Scores aren't used for
+// ordering, since fused hybrid results are ranked without a comparable score.
+export const groupSearchResultsByDocument = (
+  results: SearchResult[]
+): SearchResultItem[] => {
+  const groups = new Map<string, SearchResultItem>();
+
+  results.forEach((result) => {
+    const documentId = getResultDocumentKey(result);
+    const group = groups.get(documentId);
+    const snippet = toSnippet(result);
+
+    if (!group) {
+      groups.set(documentId, {
+        documentId,
+        document: {
+          fileName:
+            result.title ||
+            result.fileName ||
+            result.documentName ||
+            result.metadata?.fileName ||
+            "Untitled Document",
+          fileType: result.fileType || result.metadata?.fileType || "",
+          folderName: result.folderName,
+          driveUrl: result.driveUrl,
+        },
+        snippets: [snippet],
+        bestScore: result.score,
+      });
+      return;
+    }
+
+    group.snippets.push(snippet);
+    if (byScore(group.bestScore, result.score) > 0) {
+      group.bestScore = result.score;
+    }
+  });
+
+  return Array.from(groups.values());
+};
+
+export const getDriveUrl = (result: SearchResult): string =>
+  result.driveUrl ||
+  `https://drive.google.com/file/d/${result.documentId || result.metadata?.documentId || result.id || result._id}/view`;
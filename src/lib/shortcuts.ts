@@ -0,0 +1,49 @@
+// Keyboard shortcuts, as listed in the "?" overlay. Handlers live with the
+// components that own the behaviour.
+
+export interface KeyboardShortcut {
+  keys: string[];
+  description: string;
+}
+
+export interface KeyboardShortcutSection {
+  title: string;
+  shortcuts: KeyboardShortcut[];
+}
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcutSection[] = [
+  {
+    title: "General",
+    shortcuts: [
+      { keys: ["Ctrl/⌘", "K"], description: "Open the command palette" },
+      { keys: ["/"], description: "Focus the search bar" },
+      { keys: ["?"], description: "Show keyboard shortcuts" },
+      { keys: ["Esc"], description: "Close dialogs and menus" },
+    ],
+  },
+  {
+    title: "Search suggestions",
+    shortcuts: [
+      { keys: ["↓", "↑"], description: "Move through suggestions" },
+      { keys: ["Enter"], description: "Use the highlighted suggestion" },
+    ],
+  },
+  {
+    title: "Search results",
+    shortcuts: [
+      { keys: ["j"], description: "Next result" },
+      { keys: ["k"], description: "Previous result" },
+      { keys: ["Enter"], description: "Preview the selected result" },
+      { keys: ["o"], description: "Open the selected result in Drive" },
+    ],
+  },
+];
+
+// True when a key press belongs to a text field rather than a shortcut
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+};
@@ -0,0 +1,42 @@
+// Sidebar view state kept in localStorage so the tree reopens where it was
+// left: which folders are expanded and how far the tree was scrolled.
+
+const EXPANDED_FOLDERS_KEY = "sidebar.expandedFolders";
+const SCROLL_TOP_KEY = "sidebar.scrollTop";
+
+const readJson = <T>(key: string, isValid: (value: unknown) => value is T) => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored === null) return undefined;
+    const value: unknown = JSON.parse(stored);
+    return isValid(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled; the sidebar just won't remember
+  }
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export const readExpandedFolders = (): Set<string> =>
+  new Set(readJson(EXPANDED_FOLDERS_KEY, isStringArray));
+
+export const writeExpandedFolders = (folderIds: Set<string>) =>
+  writeJson(EXPANDED_FOLDERS_KEY, Array.from(folderIds));
+
+export const readScrollTop = (): number =>
+  readJson(SCROLL_TOP_KEY, isNumber) || 0;
+
+export const writeScrollTop = (scrollTop: number) =>
+  writeJson(SCROLL_TOP_KEY, Math.round(scrollTop));
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseEventData, readEventStream, type ServerSentEvent } from "./sse";
+import type { RAGStreamEvent } from "../types/api";
+
+const streamOf = (text: string) =>
+  new Response(text).body as ReadableStream<Uint8Array>;
+
+const readPayloads = async (text: string) => {
+  const events: ServerSentEvent[] = [];
+  await readEventStream(streamOf(text), (event) => events.push(event));
+  return events.map((event) => parseEventData<RAGStreamEvent>(event));
+};
+
+describe("parseEventData", () => {
+  it("takes the type from named events", async () => {
+    const payloads = await readPayloads(
+      'event: token\ndata: {"token":"Hel"}\n\n' +
+        'event: token\ndata: {"token":"lo"}\n\n' +
+        'event: done\ndata: {"conversationId":"c1"}\n\n'
+    );
+
+    expect(payloads).toEqual([
+      { type: "token", token: "Hel" },
+      { type: "token", token: "lo" },
+      { type: "done", conversationId: "c1" },
+    ]);
+  });
+
+  it("keeps the JSON type of events sent as plain data lines", async () => {
+    const payloads = await readPayloads(
+      'data: {"type":"token","token":"Hi"}\n\n' + 'data: {"type":"done"}\n\n'
+    );
+
+    expect(payloads).toEqual([
+      { type: "token", token: "Hi" },
+      { type: "done" },
+    ]);
+  });
+
+  it("skips data that isn't JSON", () => {
+    expect(
+      parseEventData({ event: "message", data: "[DONE]" })
+    ).toBeUndefined();
+  });
+});
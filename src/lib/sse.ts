@@ -0,0 +1,74 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Unnamed events arrive as "message"
+const DEFAULT_EVENT = "message";
+
+// Reads an event's JSON data with its type. Named events take the type from
+// the event name; unnamed ones keep the "type" in their data, for servers
+// that only send data lines. Returns undefined when data isn't JSON.
+export function parseEventData<T extends { type: string }>({
+  event,
+  data,
+}: ServerSentEvent): T | undefined {
+  try {
+    const payload = JSON.parse(data);
+    return (
+      event === DEFAULT_EVENT ? payload : { ...payload, type: event }
+    ) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+// Reads a text/event-stream body and invokes onEvent for every complete event.
+// Only the `event` and `data` fields are interpreted; comments and ids are ignored.
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    let event = DEFAULT_EVENT;
+    const data: string[] = [];
+
+    block.split("\n").forEach((line) => {
+      if (!line || line.startsWith(":")) return;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value =
+        separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+      if (field === "event") event = value;
+      else if (field === "data") data.push(value);
+    });
+
+    if (data.length > 0) {
+      onEvent({ event, data: data.join("\n") });
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    flush(buffer);
+  }
+}
@@ -1,9 +1,14 @@
 import axios from "axios";
 import type { AxiosInstance, AxiosError, AxiosResponse } from "axios";
+import { parseEventData, readEventStream } from "../lib/sse";
+import { fuseRankedResults } from "../lib/rankFusion";
 import type {
   SearchResponse,
   RAGQueryRequest,
   RAGResponse,
+  RAGSource,
+  RAGStreamEvent,
+  RAGStreamHandlers,
   DocumentDetails,
   SnippetRequest,
   SnippetResponse,
@@ -13,6 +18,7 @@ import type {
   ApiError,
   HealthResponse,
   SemanticSearchRequest,
+  SearchRetriever,
   SearchSuggestionsResponse,
   SimilarDocumentsResponse,
   SearchStatsResponse,
@@ -20,6 +26,9 @@ import type {
   DocumentListResponse,
   IndexDocumentRequest,
   BatchIndexRequest,
+  BatchIndexResult,
+  IndexingResult,
+  IndexStatusResponse,
   IndexedDocumentsResponse,
   FoldersResponse,
   MultiStepRAGRequest,
@@ -38,8 +47,57 @@ import type {
   ApiResponse,
 } from "../types/api";
 
+export const REQUEST_CANCELLED = "ERR_CANCELED";
+
+type SearchOptions = Omit<SemanticSearchRequest, "query"> & {
+  folderId?: string;
+  documentId?: string;
+  cursor?: string;
+};
+
+// Next-page cursors of each retriever behind a client-fused hybrid page
+type HybridCursor = Partial<Record<SearchRetriever, string>>;
+
+const HYBRID_RETRIEVERS: SearchRetriever[] = ["semantic", "keyword"];
+
+// Cursors from older URLs or history, or opaque ones from the backend's own
+// hybrid endpoint, aren't ours to read; those give undefined
+const parseHybridCursor = (cursor: string): HybridCursor | undefined => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cursor);
+  } catch {
+    return undefined;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return undefined;
+  }
+  const entries = Object.entries(parsed).filter(
+    ([retriever, value]) =>
+      HYBRID_RETRIEVERS.includes(retriever as SearchRetriever) &&
+      typeof value === "string"
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// Statuses meaning the backend has no /search/hybrid endpoint
+const MISSING_ENDPOINT_STATUSES = [404, 405, 501];
+
+const cancelledError = (): ApiError => ({
+  message: "Request cancelled",
+  code: REQUEST_CANCELLED,
+});
+
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// True when a request was aborted through its AbortSignal
+export const isRequestCancelled = (error: unknown): boolean =>
+  (error as ApiError)?.code === REQUEST_CANCELLED;
+
 class ApiService {
   private api: AxiosInstance;
+  private hasHybridEndpoint = true;
 
   constructor() {
     this.api = axios.create({
@@ -75,9 +133,14 @@ class ApiService {
         return response;
       },
       (error: AxiosError) => {
+        if (error.code === REQUEST_CANCELLED) {
+          return Promise.reject(cancelledError());
+        }
+
         const apiError: ApiError = {
           message: error.message || "An unexpected error occurred",
           code: error.code || "UNKNOWN_ERROR",
+          status: error.response?.status,
           details: error.response?.data,
         };
 
@@ -102,45 +165,263 @@ class ApiService {
   // Search endpoints
   async search(
     query: string,
-    options?: {
-      folderId?: string;
-      limit?: number;
-      cursor?: string;
+    options: SearchOptions = {},
+    signal?: AbortSignal
+  ): Promise<SearchResponse> {
+    const { mode = "semantic", ...params } = options;
+    if (mode !== "hybrid") {
+      return this.retrieve(mode, query, params, signal);
+    }
+
+    if (this.hasHybridEndpoint) {
+      try {
+        const response = await this.api.post(
+          "/search/hybrid",
+          { query, ...params },
+          { signal }
+        );
+        return response.data;
+      } catch (error) {
+        const status = (error as ApiError).status;
+        if (!status || !MISSING_ENDPOINT_STATUSES.includes(status)) {
+          throw error;
+        }
+        this.hasHybridEndpoint = false;
+      }
     }
+    return this.fusedHybridSearch(query, params, signal);
+  }
+
+  // Runs a single retriever and tags its results with it
+  private async retrieve(
+    retriever: SearchRetriever,
+    query: string,
+    params: Omit<SearchOptions, "mode">,
+    signal?: AbortSignal
   ): Promise<SearchResponse> {
-    const response = await this.api.post("/search/semantic", {
-      query,
-      ...options,
+    const response = await this.api.post(
+      `/search/${retriever}`,
+      { query, ...params },
+      { signal }
+    );
+    const data: SearchResponse = response.data;
+    return {
+      ...data,
+      data: data.data && {
+        ...data.data,
+        results: (data.data.results || []).map((result) => ({
+          ...result,
+          retrievers: result.retrievers || [retriever],
+        })),
+      },
+    };
+  }
+
+  // Hybrid search over the separate semantic and keyword endpoints, fused
+  // with reciprocal rank fusion. Each page carries both retrievers' cursors.
+  private async fusedHybridSearch(
+    query: string,
+    { cursor, ...params }: Omit<SearchOptions, "mode">,
+    signal?: AbortSignal
+  ): Promise<SearchResponse> {
+    // An unreadable cursor starts over from the first page; the pages hook
+    // drops results already shown
+    const cursors = cursor ? parseHybridCursor(cursor) : undefined;
+    const retrievers = cursors
+      ? (Object.keys(cursors) as SearchRetriever[])
+      : HYBRID_RETRIEVERS;
+
+    const responses = await Promise.all(
+      retrievers.map((retriever) =>
+        this.retrieve(
+          retriever,
+          query,
+          { ...params, cursor: cursors?.[retriever] },
+          signal
+        )
+      )
+    );
+
+    const nextCursors: HybridCursor = {};
+    responses.forEach((response, index) => {
+      if (response.data?.hasMore && response.data.nextCursor) {
+        nextCursors[retrievers[index]] = response.data.nextCursor;
+      }
     });
-    return response.data;
+    const hasMore = Object.keys(nextCursors).length > 0;
+
+    return {
+      success: responses.every((response) => response.success),
+      data: {
+        results: fuseRankedResults(
+          responses.map((response) => response.data?.results || [])
+        ),
+        total: Math.max(
+          ...responses.map((response) => response.data?.total || 0)
+        ),
+        hasMore,
+        nextCursor: hasMore ? JSON.stringify(nextCursors) : undefined,
+      },
+    };
   }
 
   async getAutocomplete(
     query: string,
-    limit: number = 5
+    limit: number = 5,
+    signal?: AbortSignal
   ): Promise<AutocompleteResponse> {
-    const response = await this.api.post("/search/suggestions", {
-      query,
-      limit,
-      autocomplete: true,
-    });
+    const response = await this.api.post(
+      "/search/suggestions",
+      {
+        query,
+        limit,
+        autocomplete: true,
+      },
+      { signal }
+    );
     return response.data;
   }
 
   // RAG endpoints
-  async ragQuery(request: RAGQueryRequest): Promise<RAGResponse> {
-    const response = await this.api.post("/rag/query", request);
+  async ragQuery(
+    request: RAGQueryRequest,
+    signal?: AbortSignal
+  ): Promise<RAGResponse> {
+    const response = await this.api.post("/rag/query", request, { signal });
     return response.data;
   }
 
+  // Streams the answer over SSE from /rag/query/stream. Falls back to the
+  // regular /rag/query endpoint, or /rag/conversation for follow-ups, when
+  // streaming is unavailable.
+  async ragQueryStream(
+    request: RAGQueryRequest,
+    handlers: RAGStreamHandlers = {},
+    signal?: AbortSignal
+  ): Promise<RAGResponse> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.api.defaults.baseURL}/rag/query/stream`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+          ...this.getAuthHeaders(),
+        },
+        body: JSON.stringify(request),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw cancelledError();
+      return this.unstreamedRAGQuery(request, signal);
+    }
+
+    const contentType = response.headers.get("Content-Type") || "";
+    if (
+      !response.ok ||
+      !response.body ||
+      !contentType.includes("text/event-stream")
+    ) {
+      return this.unstreamedRAGQuery(request, signal);
+    }
+
+    let answer = "";
+    let sources: RAGSource[] = [];
+    let conversationId: string | undefined;
+    let streamError: ApiError | undefined;
+    let isDone = false;
+
+    try {
+      await readEventStream(response.body, (event) => {
+        if (streamError) return;
+
+        const payload = parseEventData<RAGStreamEvent>(event);
+        if (!payload) return;
+
+        switch (payload.type) {
+          case "token":
+            answer += payload.token;
+            handlers.onToken?.(payload.token);
+            break;
+          case "sources":
+            sources = payload.sources || [];
+            handlers.onSources?.(sources);
+            break;
+          case "done":
+            conversationId = payload.conversationId;
+            isDone = true;
+            break;
+          case "error":
+            streamError = {
+              message: payload.message || "Stream interrupted",
+              code: "STREAM_ERROR",
+            };
+            break;
+        }
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw cancelledError();
+      throw error;
+    }
+
+    // A stream that closes without "done" only carried part of the answer
+    if (!streamError && !isDone) {
+      streamError = {
+        message: "Stream ended before the answer was complete",
+        code: "STREAM_ERROR",
+      };
+    }
+    if (streamError) {
+      throw streamError;
+    }
+
+    return {
+      success: true,
+      message: "",
+      data: { answer, sources, conversationId },
+    };
+  }
+
+  private unstreamedRAGQuery(
+    request: RAGQueryRequest,
+    signal?: AbortSignal
+  ): Promise<RAGResponse> {
+    const { sessionId, conversationHistory, question, folderId, documentId } =
+      request;
+    if (sessionId && conversationHistory?.length) {
+      return this.conversationRAG(
+        {
+          sessionId,
+          message: question,
+          conversationHistory,
+          folderId,
+          documentId,
+        },
+        signal
+      );
+    }
+    return this.ragQuery(request, signal);
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem("authToken");
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
   // Document endpoints
-  async getDocument(documentId: string): Promise<DocumentDetails> {
-    const response = await this.api.get(`/documents/${documentId}`);
+  async getDocument(
+    documentId: string,
+    signal?: AbortSignal
+  ): Promise<DocumentDetails> {
+    const response = await this.api.get(`/documents/${documentId}`, {
+      signal,
+    });
     return response.data;
   }
 
   async uploadDocument(
-    request: UploadDocumentRequest
+    request: UploadDocumentRequest,
+    signal?: AbortSignal
   ): Promise<UploadDocumentResponse> {
     const formData = new FormData();
     formData.append("file", request.file);
@@ -155,36 +436,45 @@ class ApiService {
       headers: {
         "Content-Type": "multipart/form-data",
       },
+      signal,
     });
     return response.data;
   }
 
   // Snippet endpoints
-  async getSnippets(request: SnippetRequest): Promise<SnippetResponse> {
-    const response = await this.api.post("/snippets", request);
+  async getSnippets(
+    request: SnippetRequest,
+    signal?: AbortSignal
+  ): Promise<SnippetResponse> {
+    const response = await this.api.post("/snippets", request, { signal });
     return response.data;
   }
 
   // Health Check
-  async getHealth(): Promise<HealthResponse> {
-    const response = await this.api.get("/health");
+  async getHealth(signal?: AbortSignal): Promise<HealthResponse> {
+    const response = await this.api.get("/health", { signal });
     return response.data;
   }
 
   // Enhanced Search endpoints
   async semanticSearch(
-    request: SemanticSearchRequest
+    request: SemanticSearchRequest,
+    signal?: AbortSignal
   ): Promise<SearchResponse> {
-    const response = await this.api.post("/search/semantic", request);
+    const response = await this.api.post("/search/semantic", request, {
+      signal,
+    });
     return response.data;
   }
 
   async getSearchSuggestions(
     query: string,
-    limit: number = 5
+    limit: number = 5,
+    signal?: AbortSignal
   ): Promise<SearchSuggestionsResponse> {
     const response = await this.api.get(
-      `/search/suggestions?q=${encodeURIComponent(query)}&limit=${limit}`
+      `/search/suggestions?q=${encodeURIComponent(query)}&limit=${limit}`,
+      { signal }
     );
     return response.data;
   }
@@ -192,22 +482,25 @@ class ApiService {
   async getSimilarDocuments(
     documentId: string,
     limit: number = 10,
-    threshold: number = 0.7
+    threshold: number = 0.7,
+    signal?: AbortSignal
   ): Promise<SimilarDocumentsResponse> {
     const response = await this.api.get(
-      `/search/similar/${documentId}?limit=${limit}&threshold=${threshold}`
+      `/search/similar/${documentId}?limit=${limit}&threshold=${threshold}`,
+      { signal }
     );
     return response.data;
   }
 
-  async getSearchStats(): Promise<SearchStatsResponse> {
-    const response = await this.api.get("/search/stats");
+  async getSearchStats(signal?: AbortSignal): Promise<SearchStatsResponse> {
+    const response = await this.api.get("/search/stats", { signal });
     return response.data;
   }
 
   // Enhanced Document Management
   async getDocuments(
-    request?: DocumentListRequest
+    request?: DocumentListRequest,
+    signal?: AbortSignal
   ): Promise<DocumentListResponse> {
     const params = new URLSearchParams();
     if (request?.folderId) params.append("folderId", request.folderId);
@@ -215,37 +508,60 @@ class ApiService {
     if (request?.limit) params.append("limit", request.limit.toString());
     if (request?.pageToken) params.append("pageToken", request.pageToken);
 
-    const response = await this.api.get(`/documents?${params.toString()}`);
+    const response = await this.api.get(`/documents?${params.toString()}`, {
+      signal,
+    });
     return response.data;
   }
 
   async indexDocument(
     documentId: string,
-    request?: IndexDocumentRequest
-  ): Promise<ApiResponse<any>> {
+    request?: IndexDocumentRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<IndexingResult>> {
     const response = await this.api.post(
       `/documents/${documentId}/index`,
-      request || {}
+      request || {},
+      { signal }
     );
     return response.data;
   }
 
   async batchIndexDocuments(
-    request: BatchIndexRequest
-  ): Promise<ApiResponse<any>> {
-    const response = await this.api.post("/documents/batch/index", request);
+    request: BatchIndexRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<BatchIndexResult>> {
+    const response = await this.api.post("/documents/batch/index", request, {
+      signal,
+    });
+    return response.data;
+  }
+
+  async getIndexStatus(
+    documentId: string,
+    signal?: AbortSignal
+  ): Promise<IndexStatusResponse> {
+    const response = await this.api.get(`/documents/${documentId}/index`, {
+      signal,
+    });
     return response.data;
   }
 
-  async removeDocumentFromIndex(documentId: string): Promise<ApiResponse<any>> {
-    const response = await this.api.delete(`/documents/${documentId}/index`);
+  async removeDocumentFromIndex(
+    documentId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<any>> {
+    const response = await this.api.delete(`/documents/${documentId}/index`, {
+      signal,
+    });
     return response.data;
   }
 
   async getIndexedDocuments(
     limit?: number,
     offset?: number,
-    fileType?: string
+    fileType?: string,
+    signal?: AbortSignal
   ): Promise<IndexedDocumentsResponse> {
     const params = new URLSearchParams();
     if (limit) params.append("limit", limit.toString());
@@ -253,57 +569,77 @@ class ApiService {
     if (fileType) params.append("fileType", fileType);
 
     const response = await this.api.get(
-      `/documents/indexed?${params.toString()}`
+      `/documents/indexed?${params.toString()}`,
+      { signal }
     );
     return response.data;
   }
 
   async getFolders(
     parentId?: string,
-    limit?: number
+    limit?: number,
+    signal?: AbortSignal
   ): Promise<FoldersResponse> {
     const params = new URLSearchParams();
     if (parentId) params.append("parentId", parentId);
     if (limit) params.append("limit", limit.toString());
 
     const response = await this.api.get(
-      `/documents/folders/list?${params.toString()}`
+      `/documents/folders/list?${params.toString()}`,
+      { signal }
     );
     return response.data;
   }
 
   // Enhanced RAG endpoints
-  async multiStepRAG(request: MultiStepRAGRequest): Promise<RAGResponse> {
-    const response = await this.api.post("/rag/multi-step", request);
+  async multiStepRAG(
+    request: MultiStepRAGRequest,
+    signal?: AbortSignal
+  ): Promise<RAGResponse> {
+    const response = await this.api.post("/rag/multi-step", request, {
+      signal,
+    });
     return response.data;
   }
 
-  async conversationRAG(request: ConversationRAGRequest): Promise<RAGResponse> {
-    const response = await this.api.post("/rag/conversation", request);
+  async conversationRAG(
+    request: ConversationRAGRequest,
+    signal?: AbortSignal
+  ): Promise<RAGResponse> {
+    const response = await this.api.post("/rag/conversation", request, {
+      signal,
+    });
     return response.data;
   }
 
-  async summarizeDocument(request: SummarizeRequest): Promise<RAGResponse> {
-    const response = await this.api.post("/rag/summarize", request);
+  async summarizeDocument(
+    request: SummarizeRequest,
+    signal?: AbortSignal
+  ): Promise<RAGResponse> {
+    const response = await this.api.post("/rag/summarize", request, {
+      signal,
+    });
     return response.data;
   }
 
   async compareDocuments(
-    request: CompareDocumentsRequest
+    request: CompareDocumentsRequest,
+    signal?: AbortSignal
   ): Promise<RAGResponse> {
-    const response = await this.api.post("/rag/compare", request);
+    const response = await this.api.post("/rag/compare", request, { signal });
     return response.data;
   }
 
-  async getRAGConfig(): Promise<RAGConfigResponse> {
-    const response = await this.api.get("/rag/config");
+  async getRAGConfig(signal?: AbortSignal): Promise<RAGConfigResponse> {
+    const response = await this.api.get("/rag/config", { signal });
     return response.data;
   }
 
   // Enhanced Snippets endpoints
   async getDocumentSnippets(
     documentId: string,
-    request?: DocumentSnippetsRequest
+    request?: DocumentSnippetsRequest,
+    signal?: AbortSignal
   ): Promise<DocumentSnippetsResponse> {
     const params = new URLSearchParams();
     if (request?.limit) params.append("limit", request.limit.toString());
@@ -312,30 +648,37 @@ class ApiService {
       params.append("includeText", request.includeText.toString());
 
     const response = await this.api.get(
-      `/snippets/${documentId}?${params.toString()}`
+      `/snippets/${documentId}?${params.toString()}`,
+      { signal }
     );
     return response.data;
   }
 
   async getSpecificSnippet(
     documentId: string,
-    chunkIndex: number
+    chunkIndex: number,
+    signal?: AbortSignal
   ): Promise<SpecificSnippetResponse> {
     const response = await this.api.get(
-      `/snippets/${documentId}/${chunkIndex}`
+      `/snippets/${documentId}/${chunkIndex}`,
+      { signal }
     );
     return response.data;
   }
 
   async searchSnippets(
-    request: SnippetSearchRequest
+    request: SnippetSearchRequest,
+    signal?: AbortSignal
   ): Promise<SnippetSearchResponse> {
-    const response = await this.api.post("/snippets/search", request);
+    const response = await this.api.post("/snippets/search", request, {
+      signal,
+    });
     return response.data;
   }
 
   async getRandomSnippets(
-    request?: RandomSnippetsRequest
+    request?: RandomSnippetsRequest,
+    signal?: AbortSignal
   ): Promise<RandomSnippetsResponse> {
     const params = new URLSearchParams();
     if (request?.count) params.append("count", request.count.toString());
@@ -345,13 +688,16 @@ class ApiService {
       params.append("minLength", request.minLength.toString());
 
     const response = await this.api.get(
-      `/snippets/random/sample?${params.toString()}`
+      `/snippets/random/sample?${params.toString()}`,
+      { signal }
     );
     return response.data;
   }
 
-  async getSnippetStats(): Promise<SnippetStatsResponse> {
-    const response = await this.api.get("/snippets/stats/overview");
+  async getSnippetStats(signal?: AbortSignal): Promise<SnippetStatsResponse> {
+    const response = await this.api.get("/snippets/stats/overview", {
+      signal,
+    });
     return response.data;
   }
 
@@ -368,8 +714,11 @@ class ApiService {
       } catch (error) {
         lastError = error as ApiError;
 
-        // Don't retry on client errors (4xx)
-        if (lastError.code && lastError.code.startsWith("4")) {
+        // Don't retry on client errors (4xx) or cancelled requests
+        if (
+          isRequestCancelled(lastError) ||
+          (lastError.code && lastError.code.startsWith("4"))
+        ) {
           throw lastError;
         }
 
@@ -0,0 +1,86 @@
+import { STORES, promisifyRequest, withStore } from "./db";
+import type { ChatMessage, ChatScope, ChatSession } from "../types/chat";
+
+const DEFAULT_TITLE = "New conversation";
+const MAX_TITLE_LENGTH = 60;
+
+const titleFromMessages = (messages: ChatMessage[]): string => {
+  const firstQuestion = messages.find((msg) => msg.type === "user")?.content;
+  if (!firstQuestion) return DEFAULT_TITLE;
+
+  const title = firstQuestion.replace(/\s+/g, " ").trim();
+  return title.length > MAX_TITLE_LENGTH
+    ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : title;
+};
+
+class ChatStorage {
+  async listSessions(): Promise<ChatSession[]> {
+    const sessions = await withStore(STORES.chatSessions, "readonly", (store) =>
+      promisifyRequest(store.getAll() as IDBRequest<ChatSession[]>)
+    );
+    return sessions.sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+    );
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | undefined> {
+    return withStore(STORES.chatSessions, "readonly", (store) =>
+      promisifyRequest(
+        store.get(sessionId) as IDBRequest<ChatSession | undefined>
+      )
+    );
+  }
+
+  // Creates the session on first save; afterwards only messages, scope and
+  // updatedAt change so a user-chosen title is preserved
+  async saveMessages(
+    sessionId: string,
+    messages: ChatMessage[],
+    scope: ChatScope
+  ): Promise<ChatSession> {
+    return withStore(STORES.chatSessions, "readwrite", async (store) => {
+      const existing = (await promisifyRequest(store.get(sessionId))) as
+        | ChatSession
+        | undefined;
+      const now = new Date();
+
+      const session: ChatSession = {
+        id: sessionId,
+        title: existing?.title || titleFromMessages(messages),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        folderId: scope.folderId,
+        documentId: scope.documentId,
+        messages: messages
+          .filter((msg) => !msg.isLoading)
+          .map((msg) => ({ ...msg, isStreaming: false })),
+      };
+
+      await promisifyRequest(store.put(session));
+      return session;
+    });
+  }
+
+  async renameSession(sessionId: string, title: string): Promise<void> {
+    await withStore(STORES.chatSessions, "readwrite", async (store) => {
+      const existing = (await promisifyRequest(store.get(sessionId))) as
+        | ChatSession
+        | undefined;
+      if (!existing) return;
+
+      await promisifyRequest(
+        store.put({ ...existing, title: title.trim() || DEFAULT_TITLE })
+      );
+    });
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await withStore(STORES.chatSessions, "readwrite", (store) =>
+      promisifyRequest(store.delete(sessionId))
+    );
+  }
+}
+
+export const chatStorage = new ChatStorage();
+export default chatStorage;
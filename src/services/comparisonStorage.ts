@@ -0,0 +1,32 @@
+import { STORES, promisifyRequest, withStore } from "./db";
+import type { SavedComparison } from "../types/comparison";
+
+class ComparisonStorage {
+  async listComparisons(): Promise<SavedComparison[]> {
+    const comparisons = await withStore(
+      STORES.comparisons,
+      "readonly",
+      (store) =>
+        promisifyRequest(store.getAll() as IDBRequest<SavedComparison[]>)
+    );
+    return comparisons.sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async saveComparison(comparison: SavedComparison): Promise<SavedComparison> {
+    await withStore(STORES.comparisons, "readwrite", (store) =>
+      promisifyRequest(store.put(comparison))
+    );
+    return comparison;
+  }
+
+  async deleteComparison(comparisonId: string): Promise<void> {
+    await withStore(STORES.comparisons, "readwrite", (store) =>
+      promisifyRequest(store.delete(comparisonId))
+    );
+  }
+}
+
+export const comparisonStorage = new ComparisonStorage();
+export default comparisonStorage;
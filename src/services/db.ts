@@ -0,0 +1,106 @@
+const DB_NAME = "gdrive-rag";
+const DB_VERSION = 4;
+
+export const STORES = {
+  chatSessions: "chatSessions",
+  comparisons: "comparisons",
+  searchHistory: "searchHistory",
+  savedSearches: "savedSearches",
+  summaries: "summaries",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.chatSessions)) {
+          const store = db.createObjectStore(STORES.chatSessions, {
+            keyPath: "id",
+          });
+          store.createIndex("updatedAt", "updatedAt");
+        }
+        if (!db.objectStoreNames.contains(STORES.comparisons)) {
+          const store = db.createObjectStore(STORES.comparisons, {
+            keyPath: "id",
+          });
+          store.createIndex("createdAt", "createdAt");
+        }
+        if (!db.objectStoreNames.contains(STORES.searchHistory)) {
+          const store = db.createObjectStore(STORES.searchHistory, {
+            keyPath: "id",
+          });
+          store.createIndex("searchedAt", "searchedAt");
+        }
+        if (!db.objectStoreNames.contains(STORES.savedSearches)) {
+          const store = db.createObjectStore(STORES.savedSearches, {
+            keyPath: "id",
+          });
+          store.createIndex("createdAt", "createdAt");
+        }
+        if (!db.objectStoreNames.contains(STORES.summaries)) {
+          db.createObjectStore(STORES.summaries, { keyPath: "id" });
+        }
+      };
+
+      // Another tab still has an older version open; the upgrade goes ahead
+      // once that tab closes it
+      request.onblocked = () => {
+        console.warn(
+          "Waiting for other tabs to close before upgrading local storage"
+        );
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab upgrade; the next access reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps an IDBRequest in a promise
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs fn inside a transaction on a single store and resolves once the
+// transaction has committed
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  // Awaited together so an abort after fn rejects isn't left unhandled
+  const [result] = await Promise.all([
+    fn(transaction.objectStore(storeName)),
+    done,
+  ]);
+  return result;
+};
@@ -0,0 +1,282 @@
+import { apiService, isRequestCancelled } from "./api";
+import type { ApiError, IndexingResult } from "../types/api";
+import type {
+  IndexingJob,
+  IndexingJobFailure,
+  IndexingJobRequest,
+} from "../types/indexing";
+
+const MAX_RUNNING_JOBS = 2;
+// Large jobs go out in batches so progress shows and cancel takes effect
+// between them
+const BATCH_SIZE = 50;
+const POLL_INTERVAL = 2000;
+const POLL_TIMEOUT = 10 * 60 * 1000;
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", handleAbort, { once: true });
+  });
+
+// Responses without a status count as indexed
+const toResult = (
+  documentId: string,
+  data?: Partial<IndexingResult>
+): IndexingResult => ({
+  documentId,
+  status: data?.status || "indexed",
+  error: data?.error,
+});
+
+const toFailure = (result: IndexingResult): IndexingJobFailure => ({
+  documentId: result.documentId,
+  error: result.error || "Indexing failed",
+});
+
+// Indexing requests made anywhere in the app, run a couple at a time and
+// kept for the activity drawer. Components read it through useIndexingJobs.
+class IndexingQueue {
+  private jobs: IndexingJob[] = [];
+  private listeners = new Set<() => void>();
+  private finishListeners = new Set<(job: IndexingJob) => void>();
+  private controllers = new Map<string, AbortController>();
+
+  // Newest first; replaced on every change so it can be used as a snapshot
+  getJobs = (): IndexingJob[] => this.jobs;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Called once per job when it succeeds, fails or is cancelled
+  onJobFinished = (listener: (job: IndexingJob) => void) => {
+    this.finishListeners.add(listener);
+    return () => {
+      this.finishListeners.delete(listener);
+    };
+  };
+
+  enqueue(request: IndexingJobRequest): IndexingJob {
+    const job: IndexingJob = {
+      ...request,
+      id: `indexing-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      state: "queued",
+      completedCount: 0,
+      failures: [],
+      createdAt: new Date(),
+    };
+    this.jobs = [job, ...this.jobs];
+    this.emit();
+    this.startQueuedJobs();
+    return job;
+  }
+
+  // Sends again only the documents that failed or were never sent
+  retry(jobId: string) {
+    const job = this.findJob(jobId);
+    if (!job || (job.state !== "failed" && job.state !== "cancelled")) return;
+
+    this.updateJob(jobId, {
+      documentIds: [
+        ...job.failures.map((failure) => failure.documentId),
+        ...job.documentIds.slice(job.completedCount),
+      ],
+      state: "queued",
+      completedCount: 0,
+      failures: [],
+      error: undefined,
+      finishedAt: undefined,
+    });
+    this.startQueuedJobs();
+  }
+
+  // Batches already accepted by the backend stay indexed
+  cancel(jobId: string) {
+    const job = this.findJob(jobId);
+    if (job?.state === "queued") {
+      this.finishJob(jobId, { state: "cancelled" });
+    } else if (job?.state === "running") {
+      this.controllers.get(jobId)?.abort();
+    }
+  }
+
+  clearFinished() {
+    this.jobs = this.jobs.filter(
+      (job) => job.state === "queued" || job.state === "running"
+    );
+    this.emit();
+  }
+
+  private findJob(jobId: string) {
+    return this.jobs.find((job) => job.id === jobId);
+  }
+
+  private updateJob(jobId: string, changes: Partial<IndexingJob>) {
+    this.jobs = this.jobs.map((job) =>
+      job.id === jobId ? { ...job, ...changes } : job
+    );
+    this.emit();
+  }
+
+  private finishJob(jobId: string, changes: Partial<IndexingJob>) {
+    this.updateJob(jobId, { ...changes, finishedAt: new Date() });
+    const job = this.findJob(jobId);
+    if (job) this.finishListeners.forEach((listener) => listener(job));
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private startQueuedJobs() {
+    const runningCount = this.jobs.filter(
+      (job) => job.state === "running"
+    ).length;
+    this.jobs
+      .filter((job) => job.state === "queued")
+      .reverse()
+      .slice(0, Math.max(0, MAX_RUNNING_JOBS - runningCount))
+      .forEach((job) => void this.runJob(job.id));
+  }
+
+  private async runJob(jobId: string) {
+    const controller = new AbortController();
+    this.controllers.set(jobId, controller);
+    this.updateJob(jobId, { state: "running" });
+
+    try {
+      // Kept until the lookup succeeds, so a retry looks up again
+      const { listDocumentIds } = this.findJob(jobId)!;
+      if (listDocumentIds) {
+        const documentIds = await listDocumentIds(controller.signal);
+        controller.signal.throwIfAborted();
+        this.updateJob(jobId, { documentIds, listDocumentIds: undefined });
+      }
+
+      const { documentIds, force } = this.findJob(jobId)!;
+      for (let start = 0; start < documentIds.length; start += BATCH_SIZE) {
+        const batch = documentIds.slice(start, start + BATCH_SIZE);
+        const results = await this.indexBatch(batch, force, controller.signal);
+        const job = this.findJob(jobId)!;
+        this.updateJob(jobId, {
+          completedCount: job.completedCount + batch.length,
+          failures: [
+            ...job.failures,
+            ...results
+              .filter((result) => result.status === "failed")
+              .map(toFailure),
+          ],
+        });
+      }
+
+      const { failures } = this.findJob(jobId)!;
+      this.finishJob(
+        jobId,
+        failures.length > 0
+          ? {
+              state: "failed",
+              error: `${failures.length} of ${documentIds.length} documents failed`,
+            }
+          : { state: "succeeded" }
+      );
+    } catch (error) {
+      this.finishJob(
+        jobId,
+        controller.signal.aborted || isRequestCancelled(error)
+          ? { state: "cancelled" }
+          : {
+              state: "failed",
+              error: (error as ApiError)?.message || "Indexing failed",
+            }
+      );
+    } finally {
+      this.controllers.delete(jobId);
+      this.startQueuedJobs();
+    }
+  }
+
+  private async indexBatch(
+    documentIds: string[],
+    force: boolean | undefined,
+    signal: AbortSignal
+  ): Promise<IndexingResult[]> {
+    let results: IndexingResult[];
+    if (documentIds.length === 1) {
+      const [documentId] = documentIds;
+      const response = await apiService.indexDocument(
+        documentId,
+        { force },
+        signal
+      );
+      results = [toResult(documentId, response.data)];
+    } else {
+      const response = await apiService.batchIndexDocuments(
+        { documentIds, force },
+        signal
+      );
+      results =
+        response.data?.results ||
+        documentIds.map((documentId) => ({ documentId, status: "indexed" }));
+    }
+    return this.waitForProcessing(results, signal);
+  }
+
+  // Polls documents the backend is still processing until each settles
+  private async waitForProcessing(
+    results: IndexingResult[],
+    signal: AbortSignal
+  ): Promise<IndexingResult[]> {
+    const settled = results.filter((result) => result.status !== "processing");
+    let pending = results.filter((result) => result.status === "processing");
+    const deadline = Date.now() + POLL_TIMEOUT;
+
+    while (pending.length > 0) {
+      if (Date.now() > deadline) {
+        return [
+          ...settled,
+          ...pending.map((result) => ({
+            ...result,
+            status: "failed" as const,
+            error: "Timed out waiting for indexing to finish",
+          })),
+        ];
+      }
+      await wait(POLL_INTERVAL, signal);
+      // A failed status request leaves its document pending, to be asked
+      // again until the deadline; only cancelling stops the poll
+      const polled = await Promise.all(
+        pending.map(async (result) => {
+          try {
+            return toResult(
+              result.documentId,
+              (await apiService.getIndexStatus(result.documentId, signal)).data
+            );
+          } catch (error) {
+            if (signal.aborted || isRequestCancelled(error)) throw error;
+            return result;
+          }
+        })
+      );
+      settled.push(
+        ...polled.filter((result) => result.status !== "processing")
+      );
+      pending = polled.filter((result) => result.status === "processing");
+    }
+
+    return settled;
+  }
+}
+
+export const indexingQueue = new IndexingQueue();
+export default indexingQueue;
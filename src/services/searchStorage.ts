@@ -0,0 +1,84 @@
+import { STORES, promisifyRequest, withStore } from "./db";
+import { routes } from "../lib/routes";
+import {
+  MAX_SEARCH_HISTORY_ENTRIES,
+  type SavedSearch,
+  type SearchHistoryEntry,
+  type StoredSearch,
+} from "../types/search";
+
+class SearchStorage {
+  async listHistory(): Promise<SearchHistoryEntry[]> {
+    const entries = await withStore(STORES.searchHistory, "readonly", (store) =>
+      promisifyRequest(store.getAll() as IDBRequest<SearchHistoryEntry[]>)
+    );
+    return entries.sort(
+      (a, b) => b.searchedAt.getTime() - a.searchedAt.getTime()
+    );
+  }
+
+  // Records a search, moving a repeated search to the top and dropping the
+  // oldest entries beyond MAX_SEARCH_HISTORY_ENTRIES
+  async addToHistory(search: StoredSearch): Promise<SearchHistoryEntry> {
+    const entry: SearchHistoryEntry = {
+      id: routes.search(search),
+      search,
+      searchedAt: new Date(),
+    };
+
+    await withStore(STORES.searchHistory, "readwrite", async (store) => {
+      await promisifyRequest(store.put(entry));
+      const entries = await promisifyRequest(
+        store.getAll() as IDBRequest<SearchHistoryEntry[]>
+      );
+      const expired = entries
+        .sort((a, b) => b.searchedAt.getTime() - a.searchedAt.getTime())
+        .slice(MAX_SEARCH_HISTORY_ENTRIES);
+      await Promise.all(
+        expired.map((expiredEntry) =>
+          promisifyRequest(store.delete(expiredEntry.id))
+        )
+      );
+    });
+    return entry;
+  }
+
+  async deleteHistoryEntry(entryId: string): Promise<void> {
+    await withStore(STORES.searchHistory, "readwrite", (store) =>
+      promisifyRequest(store.delete(entryId))
+    );
+  }
+
+  async clearHistory(): Promise<void> {
+    await withStore(STORES.searchHistory, "readwrite", (store) =>
+      promisifyRequest(store.clear())
+    );
+  }
+
+  async listSavedSearches(): Promise<SavedSearch[]> {
+    const searches = await withStore(
+      STORES.savedSearches,
+      "readonly",
+      (store) => promisifyRequest(store.getAll() as IDBRequest<SavedSearch[]>)
+    );
+    return searches.sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async saveSearch(savedSearch: SavedSearch): Promise<SavedSearch> {
+    await withStore(STORES.savedSearches, "readwrite", (store) =>
+      promisifyRequest(store.put(savedSearch))
+    );
+    return savedSearch;
+  }
+
+  async deleteSavedSearch(savedSearchId: string): Promise<void> {
+    await withStore(STORES.savedSearches, "readwrite", (store) =>
+      promisifyRequest(store.delete(savedSearchId))
+    );
+  }
+}
+
+export const searchStorage = new SearchStorage();
+export default searchStorage;
@@ -0,0 +1,43 @@
+import { STORES, promisifyRequest, withStore } from "./db";
+import type { RAGResponse, SummaryType } from "../types/api";
+import type { StoredSummary } from "../types/summary";
+
+const toSummaryId = (documentId: string, summaryType: SummaryType) =>
+  `${documentId}:${summaryType}`;
+
+class SummaryStorage {
+  async getSummary(
+    documentId: string,
+    summaryType: SummaryType
+  ): Promise<StoredSummary | undefined> {
+    return withStore(STORES.summaries, "readonly", (store) =>
+      promisifyRequest(
+        store.get(toSummaryId(documentId, summaryType)) as IDBRequest<
+          StoredSummary | undefined
+        >
+      )
+    );
+  }
+
+  // Replaces any earlier summary of the same type
+  async saveSummary(
+    documentId: string,
+    summaryType: SummaryType,
+    response: RAGResponse
+  ): Promise<StoredSummary> {
+    const summary: StoredSummary = {
+      id: toSummaryId(documentId, summaryType),
+      documentId,
+      summaryType,
+      response,
+      generatedAt: new Date(),
+    };
+    await withStore(STORES.summaries, "readwrite", (store) =>
+      promisifyRequest(store.put(summary))
+    );
+    return summary;
+  }
+}
+
+export const summaryStorage = new SummaryStorage();
+export default summaryStorage;
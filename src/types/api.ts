@@ -13,6 +13,15 @@ export interface SearchResult {
   documentId?: string;
   fileType?: string;
   chunkIndex?: number;
+  // Retrievers that returned this result, e.g. both for a hybrid match
+  retrievers?: SearchRetriever[];
+  // Set on client-fused hybrid results in place of score, as the retrievers
+  // score on different scales: each one's own score, and the fused score the
+  // page is ranked by
+  retrieverScores?: Partial<Record<SearchRetriever, number>>;
+  fusedScore?: number;
+  // Match offsets into text, when the backend reports them
+  highlights?: TextRange[];
   metadata?: {
     documentId?: string;
     fileName?: string;
@@ -26,6 +35,12 @@ export interface SearchResult {
   };
 }
 
+// Character range in a string, end exclusive
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
 export interface SearchResponse {
   success: boolean;
   data: {
@@ -33,14 +48,34 @@ export interface SearchResponse {
     total: number;
     hasMore: boolean;
     nextCursor?: string;
+    // Counts over the whole result set, when the backend computes them
+    facets?: SearchFacet[];
   };
 }
 
+export type SearchFacetField = "fileType" | "folderName" | "createdAt";
+
+export interface SearchFacetBucket {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface SearchFacet {
+  field: SearchFacetField;
+  label: string;
+  buckets: SearchFacetBucket[];
+}
+
 export interface RAGQueryRequest {
   question: string;
   folderId?: string;
+  documentId?: string;
   contextType?: "folder" | "document";
   maxResults?: number;
+  // Set on follow-ups so the streaming endpoint answers in context
+  sessionId?: string;
+  conversationHistory?: ConversationHistory[];
 }
 
 export interface RAGSource {
@@ -50,6 +85,14 @@ export interface RAGSource {
   snippet: string;
   driveUrl: string;
   relevanceScore: number;
+  chunkIndex?: number;
+}
+
+// One intermediate step of a multi-step (/rag/multi-step) answer
+export interface RAGReasoningStep {
+  subQuestion: string;
+  sources: RAGSource[];
+  partialAnswer: string;
 }
 
 export interface RAGResponse {
@@ -59,12 +102,27 @@ export interface RAGResponse {
     answer: string;
     sources: RAGSource[];
     conversationId?: string;
+    steps?: RAGReasoningStep[];
   };
 }
 
+// Streaming RAG Types
+export type RAGStreamEvent =
+  | { type: "token"; token: string }
+  | { type: "sources"; sources: RAGSource[] }
+  | { type: "done"; conversationId?: string }
+  | { type: "error"; message: string };
+
+export interface RAGStreamHandlers {
+  onToken?: (token: string) => void;
+  onSources?: (sources: RAGSource[]) => void;
+}
+
 export interface DocumentDetails {
   id: string;
   title: string;
+  // Drive file name, as returned by the folder listing
+  name?: string;
   content: string;
   metadata: {
     owner: string;
@@ -114,6 +172,7 @@ export interface UploadDocumentResponse {
 export interface ApiError {
   message: string;
   code: string;
+  status?: number;
   details?: any;
 }
 
@@ -124,12 +183,24 @@ export interface HealthResponse {
 }
 
 // Search Types
+export type SearchMode = "semantic" | "keyword" | "hybrid";
+export type SearchRetriever = Exclude<SearchMode, "hybrid">;
+
 export interface SemanticSearchRequest {
   query: string;
+  mode?: SearchMode;
   limit?: number;
   threshold?: number;
   documentIds?: string[];
   fileTypes?: string[];
+  // Set from the search query syntax, see lib/queryParser
+  folderName?: string;
+  createdAfter?: string;
+  phrases?: string[];
+  excludeTerms?: string[];
+  // Inclusive YYYY-MM-DD bounds on dateIndexed, from the search filters
+  indexedAfter?: string;
+  indexedBefore?: string;
 }
 
 export interface SearchSuggestionsResponse {
@@ -175,6 +246,10 @@ export interface DocumentListResponse {
   documents: DocumentDetails[];
   nextPageToken?: string;
   total: number;
+  // Folder listings wrap the files instead, see getListedDocuments
+  data?: {
+    files: DocumentDetails[];
+  };
 }
 
 export interface IndexDocumentRequest {
@@ -186,22 +261,52 @@ export interface BatchIndexRequest {
   force?: boolean;
 }
 
+export type IndexingStatus = "indexed" | "processing" | "failed";
+
+// What the backend reports for a document sent for indexing. Large files can
+// come back "processing" and finish in the background.
+export interface IndexingResult {
+  documentId: string;
+  status: IndexingStatus;
+  error?: string;
+}
+
+export interface BatchIndexResult {
+  results: IndexingResult[];
+}
+
+export interface IndexStatusResponse {
+  success: boolean;
+  data: IndexingResult;
+}
+
+// A document as the index knows it
+export interface IndexedDocument extends DocumentDetails {
+  dateIndexed?: string;
+  status?: IndexingStatus;
+  // Why indexing failed, when status is "failed"
+  error?: string;
+}
+
 export interface IndexedDocumentsResponse {
-  documents: DocumentDetails[];
+  documents: IndexedDocument[];
   total: number;
   limit: number;
   offset: number;
 }
 
+export interface DriveFolder {
+  id: string;
+  name: string;
+  parentId?: string;
+  // Subfolders and files directly inside the folder
+  childCount: number;
+}
+
 export interface FoldersResponse {
   success: boolean;
   data: {
-    folders: Array<{
-      id: string;
-      name: string;
-      parentId?: string;
-      childCount: number;
-    }>;
+    folders: DriveFolder[];
   };
   total: number;
 }
@@ -216,17 +321,23 @@ export interface ConversationHistory {
 export interface MultiStepRAGRequest {
   question: string;
   maxSteps?: number;
+  folderId?: string;
+  documentId?: string;
 }
 
 export interface ConversationRAGRequest {
   sessionId: string;
   message: string;
   conversationHistory?: ConversationHistory[];
+  folderId?: string;
+  documentId?: string;
 }
 
+export type SummaryType = "brief" | "detailed" | "bullet-points";
+
 export interface SummarizeRequest {
   documentId: string;
-  summaryType?: "brief" | "detailed" | "bullet-points";
+  summaryType?: SummaryType;
 }
 
 export interface CompareDocumentsRequest {
@@ -0,0 +1,27 @@
+import type { RAGReasoningStep, RAGSource } from "./api";
+
+export interface ChatMessage {
+  id: string;
+  type: "user" | "assistant";
+  content: string;
+  sources?: RAGSource[];
+  steps?: RAGReasoningStep[];
+  timestamp: Date;
+  isLoading?: boolean;
+  isStreaming?: boolean;
+  isCancelled?: boolean;
+  isError?: boolean;
+}
+
+export interface ChatScope {
+  folderId?: string;
+  documentId?: string;
+}
+
+export interface ChatSession extends ChatScope {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,21 @@
+import type { RAGSource } from "./api";
+
+// /rag/compare accepts between 2 and 5 documents
+export const MIN_COMPARISON_DOCUMENTS = 2;
+export const MAX_COMPARISON_DOCUMENTS = 5;
+
+export interface ComparisonDocument {
+  id: string;
+  name: string;
+}
+
+export interface SavedComparison {
+  id: string;
+  title: string;
+  documents: ComparisonDocument[];
+  focusAreas: string[];
+  comparisonAspect?: string;
+  answer: string;
+  sources: RAGSource[];
+  createdAt: Date;
+}
@@ -0,0 +1,37 @@
+// Jobs of 20 or more documents announce when they finish
+export const LARGE_INDEXING_JOB_SIZE = 20;
+
+export type IndexingJobState =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export interface IndexingJobFailure {
+  documentId: string;
+  error: string;
+}
+
+export interface IndexingJobRequest {
+  documentIds: string[];
+  // Looks up the documents once the job starts, e.g. everything in a folder,
+  // so a failed lookup shows on the job. Replaces documentIds.
+  listDocumentIds?: (signal: AbortSignal) => Promise<string[]>;
+  force?: boolean;
+  // Shown in the activity drawer, e.g. the document or folder name
+  label: string;
+}
+
+export interface IndexingJob extends IndexingJobRequest {
+  id: string;
+  state: IndexingJobState;
+  // Documents sent so far; batches go in order, so these are the first ones
+  completedCount: number;
+  // Documents the backend reported as failed
+  failures: IndexingJobFailure[];
+  // Set when a request failed outright, rather than single documents
+  error?: string;
+  createdAt: Date;
+  finishedAt?: Date;
+}
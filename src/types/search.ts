@@ -0,0 +1,89 @@
+import type {
+  SearchFacetField,
+  SearchMode,
+  SearchResult,
+  TextRange,
+} from "./api";
+
+export const SEARCH_MODES: SearchMode[] = ["semantic", "keyword", "hybrid"];
+export const DEFAULT_SEARCH_MODE: SearchMode = "semantic";
+export const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  semantic: "Semantic",
+  keyword: "Keyword",
+  hybrid: "Hybrid",
+};
+
+// Filters applied on top of the search query. All of them map onto
+// SemanticSearchRequest; the indexed-date range is also applied to the
+// returned results for backends that ignore it.
+export interface SearchFilters {
+  fileTypes?: string[];
+  threshold?: number;
+  // Inclusive YYYY-MM-DD bounds on SearchResult.dateIndexed
+  dateFrom?: string;
+  dateTo?: string;
+  documentIds?: string[];
+}
+
+// Facet values picked in the results sidebar, by facet field
+export type SearchFacetSelection = Partial<Record<SearchFacetField, string[]>>;
+
+// Search results grouped by document, as shown by SearchResults
+export interface SearchResultSnippet {
+  id: string;
+  chunkIndex: number;
+  text: string;
+  preview: string;
+  score?: number;
+  metadata: {
+    createdAt?: string;
+    [key: string]: unknown;
+  };
+  // Server match offsets into text
+  highlights?: TextRange[];
+  // The chunk-level result behind the snippet, used to open the preview
+  result?: SearchResult;
+}
+
+export interface SearchResultDocument {
+  fileName: string;
+  fileType: string;
+  size?: number;
+  totalChunks?: number;
+  folderName?: string;
+  driveUrl?: string;
+}
+
+export interface SearchResultItem {
+  documentId: string;
+  document: SearchResultDocument;
+  // In result order, best match first
+  snippets: SearchResultSnippet[];
+  bestScore?: number;
+}
+
+export type SearchResultsView = "grouped" | "flat";
+
+// A search as it appears in the URL: query, mode, scope and filters
+export interface StoredSearch extends SearchFilters {
+  q: string;
+  mode?: SearchMode;
+  folder?: string;
+  document?: string;
+}
+
+export interface SearchHistoryEntry {
+  // The search's URL, so repeating a search updates its entry
+  id: string;
+  search: StoredSearch;
+  searchedAt: Date;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  search: StoredSearch;
+  createdAt: Date;
+}
+
+export const MAX_SEARCH_HISTORY_ENTRIES = 50;
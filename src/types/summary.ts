@@ -0,0 +1,11 @@
+import type { RAGResponse, SummaryType } from "./api";
+
+// A generated summary, kept in IndexedDB so it survives reloads
+export interface StoredSummary {
+  // `${documentId}:${summaryType}`
+  id: string;
+  documentId: string;
+  summaryType: SummaryType;
+  response: RAGResponse;
+  generatedAt: Date;
+}
@@ -1,3 +1,5 @@
+import typography from "@tailwindcss/typography";
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -48,5 +50,5 @@ export default {
       },
     },
   },
-  plugins: [],
+  plugins: [typography],
 }
\ No newline at end of file